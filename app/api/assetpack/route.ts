@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProject, getVersions, resolveProjectId } from "@/lib/store";
+import { getOrCreateSessionId } from "@/lib/session";
+import { readAsset } from "@/lib/assets";
+import { buildAssetPack } from "@/lib/assetpack";
+
+export const dynamic = "force-dynamic";
+
+// Download favicons, app icons and social images for one version (default: the thread's current one)
+export async function GET(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const url = new URL(req.url);
+  const projectId = resolveProjectId(sid, url.searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
+  const threadId = url.searchParams.get("thread") || "default";
+
+  const { versions, currentVersionId } = getVersions(sid, projectId, threadId);
+  const versionId = url.searchParams.get("version") || currentVersionId;
+  const version = versions.find((v) => v.id === versionId);
+  if (!version) return NextResponse.json({ error: "Unknown version" }, { status: 404 });
+
+  let source: Buffer;
+  try {
+    source = await readAsset(sid, version.imageUrl);
+  } catch {
+    return NextResponse.json({ error: "Version image is no longer available" }, { status: 410 });
+  }
+
+  const name = getProject(sid, projectId).name;
+  const archive = await buildAssetPack(source, name);
+  console.log(`📦 Built asset pack for ${version.id} (${archive.length} bytes) - Session: ${sid}`);
+  const filename = `${name.replace(/[^A-Za-z0-9_-]+/g, "-").replace(/^-+|-+$/g, "") || "logo"}-assets.zip`;
+  return new NextResponse(new Uint8Array(archive), {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Content-Length": String(archive.length),
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "node:fs";
+import { Readable } from "node:stream";
+import { getAsset } from "@/lib/assets";
+import { getSessionIdMaybe } from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+
+// Assets are immutable once written, so the id doubles as the validator.
+// "private" keeps shared caches from storing one session's files.
+const CACHE_CONTROL = "private, max-age=31536000, immutable";
+
+// Parse a single "bytes=start-end" / "bytes=start-" / "bytes=-suffix" range.
+// Returns null for unsatisfiable ranges; multi-range requests fall back to the first range.
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const m = header.match(/^bytes=(\d*)-(\d*)/);
+  if (!m || (m[1] === "" && m[2] === "")) return null;
+  let start: number;
+  let end: number;
+  if (m[1] === "") {
+    const suffix = Number(m[2]);
+    if (suffix === 0) return null;
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = Number(m[1]);
+    end = m[2] === "" ? size - 1 : Math.min(Number(m[2]), size - 1);
+  }
+  if (start > end || start >= size) return null;
+  return { start, end };
+}
+
+function stream(file: string, range?: { start: number; end: number }): ReadableStream {
+  return Readable.toWeb(fs.createReadStream(file, range)) as ReadableStream;
+}
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const sid = await getSessionIdMaybe();
+  // Same response for "missing" and "not yours" so ids can't be probed
+  const asset = sid ? await getAsset(sid, id) : null;
+  if (!asset) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const { meta, file } = asset;
+  const etag = `"${meta.id}"`;
+  const headers: Record<string, string> = {
+    "Content-Type": meta.mimeType,
+    "Cache-Control": CACHE_CONTROL,
+    ETag: etag,
+    "Last-Modified": new Date(meta.createdAt).toUTCString(),
+    "Accept-Ranges": "bytes",
+  };
+
+  if (req.headers.get("if-none-match") === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const rangeHeader = req.headers.get("range");
+  if (rangeHeader) {
+    const range = parseRange(rangeHeader, meta.size);
+    if (!range) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, "Content-Range": `bytes */${meta.size}` },
+      });
+    }
+    return new NextResponse(stream(file, range), {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Range": `bytes ${range.start}-${range.end}/${meta.size}`,
+        "Content-Length": String(range.end - range.start + 1),
+      },
+    });
+  }
+
+  return new NextResponse(stream(file), {
+    status: 200,
+    headers: { ...headers, "Content-Length": String(meta.size) },
+  });
+}
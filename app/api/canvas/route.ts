@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCanvas, resolveProjectId, saveCanvas } from "@/lib/store";
+import { parseCanvas } from "@/lib/canvas";
+import { getOrCreateSessionId } from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const projectId = resolveProjectId(sid, new URL(req.url).searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
+  return NextResponse.json({ project: projectId, canvas: getCanvas(sid, projectId) ?? null });
+}
+
+export async function PUT(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const projectId = resolveProjectId(sid, new URL(req.url).searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
+  const body = await req.json().catch(() => null);
+  const canvas = parseCanvas(body);
+  if (!canvas) return NextResponse.json({ error: "Invalid canvas" }, { status: 400 });
+  saveCanvas(sid, projectId, canvas);
+  return NextResponse.json({ project: projectId, canvas });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOrCreateSessionId } from "@/lib/session";
+import { enhancePrompt } from "@/lib/enhance";
+import { errorResult } from "@/lib/generation";
+import { acquireGenerationSlot, clientIp, quotaHeaders } from "@/lib/ratelimit";
+
+export const dynamic = "force-dynamic";
+
+const MAX_PROMPT_LENGTH = 2000;
+
+// Expand a short prompt into a design brief: { message, template?, model? } -> { id, original, enhanced }.
+// Send the (possibly edited) brief to /api/messages with `enhancement: id` to keep the original on the message.
+export async function POST(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const body = await req.json().catch(() => null);
+  const prompt = typeof body?.message === "string" ? body.message.trim() : "";
+  if (!prompt) return NextResponse.json({ error: "Missing message" }, { status: 400 });
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    return NextResponse.json({ error: `Message is longer than ${MAX_PROMPT_LENGTH} characters` }, { status: 400 });
+  }
+  const templateId = typeof body?.template === "string" && body.template.trim() ? body.template.trim() : undefined;
+  const modelId = typeof body?.model === "string" && body.model.trim() ? body.model.trim() : undefined;
+
+  // The enhancer calls the model too, so it counts against the same limits as generations
+  const slot = acquireGenerationSlot(sid, clientIp(req.headers));
+  if (!slot.ok) {
+    const retryAfter = Math.ceil(slot.retryAfterMs / 1000);
+    return NextResponse.json(
+      { error: slot.error, code: slot.code, retryable: true, retryAfter, quota: slot.quota },
+      { status: 429, headers: { "Retry-After": String(retryAfter), ...quotaHeaders(slot.quota) } }
+    );
+  }
+
+  try {
+    const { id, original, enhanced } = await enhancePrompt(sid, { prompt, modelId, templateId });
+    console.log(`✨ Enhanced prompt - Session: ${sid}, ${original.length} → ${enhanced.length} chars`);
+    return NextResponse.json({ id, original, enhanced }, { headers: quotaHeaders(slot.quota) });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("❌ Prompt enhancement failed:", msg);
+    const { status, body: errorBody, headers } = errorResult(e, `Prompt enhancement failed: ${msg}`);
+    return NextResponse.json(errorBody, { status, headers });
+  } finally {
+    slot.release();
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveProjectId } from "@/lib/store";
+import { getOrCreateSessionId } from "@/lib/session";
+import { exportWorkspace } from "@/lib/workspace";
+
+export const dynamic = "force-dynamic";
+
+// Download a project as a zip archive (manifest.json + assets/)
+export async function GET(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const projectId = resolveProjectId(sid, new URL(req.url).searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
+
+  const { name, archive } = await exportWorkspace(sid, projectId);
+  const filename = `${name.replace(/[^A-Za-z0-9_-]+/g, "-").replace(/^-+|-+$/g, "") || "workspace"}.zip`;
+  return new NextResponse(new Uint8Array(archive), {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Content-Length": String(archive.length),
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listProjects, setActiveProject } from "@/lib/store";
+import { getOrCreateSessionId } from "@/lib/session";
+import { checkQuota, SESSION_QUOTA_BYTES } from "@/lib/gc";
+import { importWorkspace } from "@/lib/workspace";
+
+export const dynamic = "force-dynamic";
+
+// Largest archive accepted even when the session has more quota left (LC_MAX_IMPORT_MB)
+const MAX_IMPORT_BYTES = Math.max(1, Number(process.env.LC_MAX_IMPORT_MB ?? 500) || 500) * 1024 * 1024;
+
+// Read a raw body, giving up as soon as it grows past `limit` (Content-Length may be missing)
+async function readBody(req: NextRequest, limit: number): Promise<Buffer | null> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = req.body?.getReader();
+  if (!reader) return Buffer.alloc(0);
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    size += next.value.length;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(next.value);
+  }
+  return Buffer.concat(chunks);
+}
+
+function tooLarge(limit: number) {
+  const mb = (limit / 1024 / 1024).toFixed(1);
+  return NextResponse.json({ error: `Archive is too large (at most ${mb} MB can be imported)`, code: "too_large" }, { status: 413 });
+}
+
+// Recreate an exported archive as a new, active project. Accepts multipart ("file") or a raw zip body.
+export async function POST(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+
+  const quota = await checkQuota(sid);
+  if (!quota.ok) {
+    return NextResponse.json({ error: "Storage quota exceeded", code: "quota_exceeded", usage: quota.usage, quota: quota.quota }, { status: 507 });
+  }
+  const remaining = SESSION_QUOTA_BYTES ? SESSION_QUOTA_BYTES - quota.usage : undefined;
+  // Refuse oversized uploads before buffering them; the unpacked size is checked again by readZip
+  const limit = Math.min(MAX_IMPORT_BYTES, remaining ?? Infinity);
+  if (Number(req.headers.get("content-length")) > limit) return tooLarge(limit);
+
+  let archive: Buffer;
+  try {
+    const contentType = req.headers.get("content-type") || "";
+    if (contentType.includes("multipart/form-data")) {
+      const file = (await req.formData()).get("file");
+      if (!(file instanceof File)) return NextResponse.json({ error: "Missing file" }, { status: 400 });
+      if (file.size > limit) return tooLarge(limit);
+      archive = Buffer.from(await file.arrayBuffer());
+    } else {
+      const body = await readBody(req, limit);
+      if (!body) return tooLarge(limit);
+      archive = body;
+    }
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ error: `Invalid request: ${msg}` }, { status: 400 });
+  }
+
+  try {
+    const project = await importWorkspace(sid, archive, remaining);
+    setActiveProject(sid, project.id);
+    return NextResponse.json({ project: project.id, ...listProjects(sid) });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ error: `Import failed: ${msg}` }, { status: 400 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { cancelJob, getJob } from "@/lib/jobs";
+import { getSessionIdMaybe } from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+
+// Job status: queued | running | done | failed | cancelled, with polling progress while running
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const sid = await getSessionIdMaybe();
+  const job = sid ? getJob(sid, id) : undefined;
+  if (!job) return NextResponse.json({ error: "Unknown job" }, { status: 404 });
+  return NextResponse.json({ job });
+}
+
+// Cancel a queued or running job; finished jobs answer 409
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const sid = await getSessionIdMaybe();
+  const before = sid ? getJob(sid, id) : undefined;
+  if (!sid || !before) return NextResponse.json({ error: "Unknown job" }, { status: 404 });
+  if (before.status !== "queued" && before.status !== "running") {
+    return NextResponse.json({ error: `Job already ${before.status}`, job: before }, { status: 409 });
+  }
+  return NextResponse.json({ job: cancelJob(sid, id) });
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listJobs } from "@/lib/jobs";
+import { resolveProjectId } from "@/lib/store";
+import { getOrCreateSessionId } from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+
+// Jobs of a thread, so a reloaded page can resume polling the ones still in progress
+export async function GET(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const url = new URL(req.url);
+  const threadId = url.searchParams.get("thread") || "default";
+  const projectId = resolveProjectId(sid, url.searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
+  return NextResponse.json({ thread: threadId, jobs: listJobs(sid, { projectId, threadId }) });
+}
@@ -1,25 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
-import { addMessage, getMessages, getThread, setLastImage } from "@/lib/store";
+import { getMessages, resolveProjectId } from "@/lib/store";
 import { getOrCreateSessionId } from "@/lib/session";
-import { generateOrEditImage, generateVideo } from "@/lib/gemini";
-import { enforcePng1024, TARGET_SIZE } from "@/lib/image";
-import fs from "node:fs";
-import path from "node:path";
+import { parseVideoOptions, runGeneration, type GenerationEvent, type GenerationInput, type GenerationResult } from "@/lib/generation";
+import type { VideoOptions } from "@/lib/gemini";
+import type { GenerationErrorCode } from "@/lib/errors";
+import { getJob, watchJob, whenJobSettled, type Job } from "@/lib/jobs";
+import { acquireGenerationSlot, clientIp, quotaHeaders } from "@/lib/ratelimit";
+import { takeEnhancement } from "@/lib/enhance";
 
 export const dynamic = "force-dynamic";
 
+// Upper bound for the number of candidate images generated per prompt
+const MAX_CANDIDATES = 4;
+
+function parseCount(v: unknown): number {
+  const n = Math.floor(Number(v));
+  return Number.isFinite(n) ? Math.min(MAX_CANDIDATES, Math.max(1, n)) : 1;
+}
+
 export async function GET(req: NextRequest) {
   const sid = await getOrCreateSessionId();
   const url = new URL(req.url);
   const threadId = url.searchParams.get("thread") || "default";
+  const projectId = resolveProjectId(sid, url.searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
   (`📥 GET messages - Session: ${sid}, Thread: ${threadId}`);
-  const msgs = getMessages(sid, threadId);
+  const msgs = getMessages(sid, projectId, threadId);
   (`📤 Returning ${msgs.length} messages for thread ${threadId}`);
   return NextResponse.json({ thread: threadId, messages: msgs });
 }
 
 export async function POST(req: NextRequest) {
   const sid = await getOrCreateSessionId();
+  const projectId = resolveProjectId(sid, new URL(req.url).searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
 
   let prompt = "";
   let uploadBuffer: Buffer | null = null;
@@ -28,6 +42,12 @@ export async function POST(req: NextRequest) {
   let modelId: string | undefined;
   let threadId: string = "default";
   let templateId: string | undefined;
+  let count = 1;
+  let aspectRatio: string | undefined;
+  let video: VideoOptions = {};
+  let fresh = false;
+  let transparent = false;
+  let enhancementId: string | undefined;
 
   const contentType = req.headers.get("content-type") || "";
   try {
@@ -56,6 +76,19 @@ export async function POST(req: NextRequest) {
       if (typeof template === "string" && template.trim()) {
         templateId = template.trim();
       }
+      const countField = form.get("count");
+      if (typeof countField === "string") count = parseCount(countField);
+      const aspectField = form.get("aspect");
+      if (typeof aspectField === "string" && aspectField.trim()) aspectRatio = aspectField.trim();
+      // Video options arrive as a JSON string field
+      const videoField = form.get("video");
+      if (typeof videoField === "string") video = parseVideoOptions(videoField);
+      const freshField = form.get("fresh");
+      fresh = freshField === "1" || freshField === "true";
+      const transparentField = form.get("transparent");
+      transparent = transparentField === "1" || transparentField === "true";
+      const enhancementField = form.get("enhancement");
+      if (typeof enhancementField === "string" && enhancementField) enhancementId = enhancementField;
     } else {
       const body = await req.json();
       prompt = body?.message || "";
@@ -71,6 +104,12 @@ export async function POST(req: NextRequest) {
       if (typeof body?.template === "string" && body.template.trim()) {
         templateId = body.template.trim();
       }
+      if (body?.count !== undefined) count = parseCount(body.count);
+      if (typeof body?.aspect === "string" && body.aspect.trim()) aspectRatio = body.aspect.trim();
+      video = parseVideoOptions(body?.video);
+      fresh = body?.fresh === true;
+      transparent = body?.transparent === true;
+      if (typeof body?.enhancement === "string" && body.enhancement) enhancementId = body.enhancement;
     }
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
@@ -81,135 +120,153 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: "Missing message" }, { status: 400 });
   }
 
-  // Record user message
-  const userMsg = {
-    id: `${Date.now()}-u`,
-    role: "user" as const,
-    text: prompt,
-    timestamp: Date.now(),
-  };
-  addMessage(sid, threadId, userMsg);
-
-  // Determine base image: uploaded or theme or last in this thread
-  const threadState = getThread(sid, threadId);
-  
-  // Debug logging to verify thread state
-  console.log(`🔍 Thread ${threadId} state:`, {
-    hasLastImage: !!threadState.lastImage,
-    lastImageSize: threadState.lastImage?.length || 0,
-    lastImageMime: threadState.lastImageMime,
-    messageCount: threadState.messages.length
-  });
-  
-  const normalizedUpload = uploadBuffer ? await enforcePng1024(uploadBuffer) : null;
+  // Every accepted request spends upstream quota, so it counts against the session/IP limits
+  const slot = acquireGenerationSlot(sid, clientIp(req.headers));
+  if (!slot.ok) {
+    const retryAfter = Math.ceil(slot.retryAfterMs / 1000);
+    console.warn(`🚦 Generation refused (${slot.code}) - Session: ${sid}`);
+    return NextResponse.json(
+      { error: slot.error, code: slot.code, retryable: true, retryAfter, quota: slot.quota },
+      { status: 429, headers: { "Retry-After": String(retryAfter), ...quotaHeaders(slot.quota) } }
+    );
+  }
+
+  // The brief from /api/enhance this prompt was based on (the user may have edited it).
+  // Taken only once the request is accepted, so a refused one can send it again with its usage.
+  const enhancement = enhancementId ? takeEnhancement(sid, enhancementId) : undefined;
+  if (enhancementId && !enhancement) {
+    slot.release();
+    return NextResponse.json({ error: "Unknown or expired prompt enhancement" }, { status: 400 });
+  }
+
+  const input: GenerationInput = { prompt, threadId, upload: uploadBuffer, themeName, modelId, templateId, count, aspectRatio, video, fresh, transparent, enhancement };
 
-  // Optional theme image from public/themes
-  let themeBuffer: Buffer | null = null;
-  if (themeName) {
+  // ?stream=1 (or Accept: text/event-stream) answers with Server-Sent Events instead of JSON
+  const wantsStream =
+    new URL(req.url).searchParams.get("stream") === "1" || (req.headers.get("accept") || "").includes("text/event-stream");
+  if (!wantsStream) {
+    let result: GenerationResult | undefined;
     try {
-      const themesDir = path.join(process.cwd(), "public", "themes");
-      const safeName = path.basename(themeName);
-      const themePath = path.join(themesDir, safeName);
-      const stat = await fs.promises.stat(themePath);
-      if (stat.isFile()) {
-        const raw = await fs.promises.readFile(themePath);
-        themeBuffer = await enforcePng1024(raw);
-      }
-    } catch {
-      // ignore invalid theme
-      themeBuffer = null;
+      result = await runGeneration(sid, projectId, input);
+    } catch (e: unknown) {
+      result = unexpectedFailure(sid, e);
+    } finally {
+      releaseWhenDone(sid, result, slot.release);
     }
+    const { status, body, headers } = result;
+    return NextResponse.json(body, { status, headers: { ...quotaHeaders(slot.quota), ...headers } });
   }
 
-  // Precedence: upload > theme > lastImage
-  const baseImage = normalizedUpload
-    ? { data: normalizedUpload, mimeType: "image/png" }
-    : themeBuffer
-    ? { data: themeBuffer, mimeType: "image/png" }
-    : threadState.lastImage
-    ? { data: threadState.lastImage, mimeType: threadState.lastImageMime || "image/png" }
-    : null;
-
-  // Debug logging for base image selection
-  console.log(`🎯 Base image selection for thread ${threadId}:`, {
-    hasUpload: !!normalizedUpload,
-    hasTheme: !!themeBuffer,
-    hasLastImage: !!threadState.lastImage,
-    selectedSource: normalizedUpload ? 'upload' : themeBuffer ? 'theme' : threadState.lastImage ? 'lastImage' : 'none',
-    baseImageSize: baseImage?.data?.length || 0
+  return new Response(streamGeneration(sid, projectId, input, slot.release), {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      ...quotaHeaders(slot.quota),
+    },
   });
+}
 
-  try {
-    const isVideoModel = modelId === "veo-3.0-generate-preview";
-    
-    if (isVideoModel) {
-      // Generate video with Veo 3
-      const { video } = await generateVideo({
-        prompt,
-        baseImage,
-        modelId,
-      });
-
-      // Persist video to public folder
-      const dir = path.join(process.cwd(), "public", "outputs", sid);
-      await fs.promises.mkdir(dir, { recursive: true });
-      const filename = `${Date.now()}.mp4`;
-      const filepath = path.join(dir, filename);
-      await fs.promises.writeFile(filepath, video);
-      const relUrl = `/outputs/${sid}/${filename}`;
-
-      const assistantMsg = {
-        id: `${Date.now()}-a`,
-        role: "assistant" as const,
-        videoUrl: relUrl,
-        timestamp: Date.now(),
-      };
-      addMessage(sid, threadId, assistantMsg);
+// Errors runGeneration didn't turn into a result (e.g. storage failures) still get an answer
+function unexpectedFailure(sid: string, e: unknown): GenerationResult {
+  console.error(`❌ Generation failed - Session: ${sid}:`, e);
+  return { status: 500, body: { error: "Generation failed unexpectedly" } };
+}
 
-      return NextResponse.json({ thread: threadId, message: assistantMsg });
-    } else {
-      // Generate image with Gemini Image
-      const { image } = await generateOrEditImage({
-        prompt,
-        baseImage,
-        size: { width: TARGET_SIZE, height: TARGET_SIZE },
-        modelId,
-        templateId,
-      });
-
-      // Enforce 1024x1024 PNG
-      const png = await enforcePng1024(image);
-
-      // Persist to public folder
-      const dir = path.join(process.cwd(), "public", "outputs", sid);
-      await fs.promises.mkdir(dir, { recursive: true });
-      const filename = `${Date.now()}.png`;
-      const filepath = path.join(dir, filename);
-      await fs.promises.writeFile(filepath, png);
-      const relUrl = `/outputs/${sid}/${filename}`;
-
-      // Update thread state
-      setLastImage(sid, threadId, png, "image/png");
-
-      const assistantMsg = {
-        id: `${Date.now()}-a`,
-        role: "assistant" as const,
-        imageUrl: relUrl,
-        timestamp: Date.now(),
+// A video job keeps its concurrency slot while queued or running, so a session can't fill the
+// shared job queue with more than its share of long generations
+function releaseWhenDone(sid: string, result: GenerationResult | undefined, release: () => void) {
+  const job = result?.body.job as Job | undefined;
+  if (job) whenJobSettled(sid, job.id, release);
+  else release();
+}
+
+type StreamEvent = GenerationEvent | { type: "done"; status: number; body: Record<string, unknown> };
+
+// Events as they happen, then a final "done" event carrying the same body the JSON mode returns.
+// For video the stream stays open until the background job finishes; if the client goes away
+// the generation keeps running and can still be followed through /api/jobs.
+// `release` frees the concurrency slot once the generation is done (video: once its job ends).
+function streamGeneration(
+  sid: string,
+  projectId: string,
+  input: GenerationInput,
+  release: () => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let closed = false;
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: StreamEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
       };
-      addMessage(sid, threadId, assistantMsg);
+      let result: GenerationResult | undefined;
+      try {
+        result = await runGeneration(sid, projectId, input, send);
+      } catch (e: unknown) {
+        result = unexpectedFailure(sid, e);
+      } finally {
+        releaseWhenDone(sid, result, release);
+      }
+      if (result.status >= 400) {
+        const { error, code, retryable } = result.body as { error: string; code?: GenerationErrorCode; retryable?: boolean };
+        send({ type: "error", error, status: result.status, code, retryable });
+      }
+      const job = result.body.job as Job | undefined;
+      if (job) {
+        // Report the job's outcome rather than the 202 it started with
+        const final = await followJob(sid, projectId, job, send);
+        if (final?.status === "failed") {
+          const body = { ...result.body, job: final, error: `Error: ${final.error}`, code: final.errorCode, retryable: final.retryable };
+          Object.assign(result, { status: 500, body });
+        } else if (final?.status === "cancelled") {
+          Object.assign(result, { status: 409, body: { ...result.body, job: final, error: "Video generation was cancelled" } });
+        } else if (final) {
+          result.body = { ...result.body, job: final };
+        }
+      }
+      send({ type: "done", status: result.status, body: result.body });
+      if (!closed) controller.close();
+      closed = true;
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
 
-      return NextResponse.json({ thread: threadId, message: assistantMsg });
-    }
-  } catch (e: unknown) {
-    const msg = e instanceof Error ? e.message : String(e);
-    const assistantMsg = {
-      id: `${Date.now()}-a-err`,
-      role: "assistant" as const,
-      text: `Error: ${msg}`,
-      timestamp: Date.now(),
+// Forward a video job's progress as events until it leaves queued/running; resolves with the final job
+function followJob(sid: string, projectId: string, job: Job, send: (event: StreamEvent) => void): Promise<Job | undefined> {
+  return new Promise((resolve) => {
+    let finished = false;
+    const onUpdate = (j: Job) => {
+      if (finished) return;
+      if (j.status === "running" && j.progress) {
+        send({ type: "polling", attempt: j.progress.done, maxAttempts: j.progress.total });
+        return;
+      }
+      if (j.status === "queued" || j.status === "running") return;
+      finished = true;
+      if (j.status === "done" && j.result) {
+        const message = getMessages(sid, projectId, j.threadId).find((m) => m.id === j.result!.messageId);
+        if (message) send({ type: "saved", message });
+      } else if (j.status === "failed") {
+        send({ type: "error", error: `Error: ${j.error}`, status: 500, code: j.errorCode, retryable: j.retryable });
+      } else {
+        send({ type: "error", error: "Video generation was cancelled", status: 409 });
+      }
+      unsubscribe();
+      resolve(j);
     };
-    addMessage(sid, threadId, assistantMsg);
-    return NextResponse.json({ error: assistantMsg.text }, { status: 500 });
-  }
+    const unsubscribe = watchJob(sid, job.id, onUpdate);
+    // The job may have finished before we subscribed
+    const current = getJob(sid, job.id);
+    if (!current) {
+      unsubscribe();
+      resolve(undefined);
+    } else if (current.status !== "queued" && current.status !== "running") {
+      onUpdate(current);
+    }
+  });
 }
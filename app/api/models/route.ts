@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_MODEL_ID, listModels } from "@/lib/models";
+import { CACHE_ENABLED } from "@/lib/cache";
+
+export const dynamic = "force-dynamic";
+
+// Models with capabilities and whether they're usable with the server's configured keys.
+// `cache` tells the chat whether identical image requests may be answered from the generation cache.
+export async function GET() {
+  return NextResponse.json({ models: listModels(), default: DEFAULT_MODEL_ID, cache: CACHE_ENABLED });
+}
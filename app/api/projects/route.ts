@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  getProject,
+  listProjects,
+  renameProject,
+  resolveProjectId,
+  rewriteProjectUrls,
+  setActiveProject,
+} from "@/lib/store";
+import { getOrCreateSessionId } from "@/lib/session";
+import { copyProjectAssets } from "@/lib/assets";
+import { collectSessionGarbage } from "@/lib/gc";
+
+export const dynamic = "force-dynamic";
+
+function readName(v: unknown): string | undefined {
+  return typeof v === "string" && v.trim() ? v.trim().slice(0, 100) : undefined;
+}
+
+export async function GET() {
+  const sid = await getOrCreateSessionId();
+  return NextResponse.json(listProjects(sid));
+}
+
+// Create a project ({ name }) or duplicate one ({ sourceProject, name? }). The new project becomes active.
+export async function POST(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const body = await req.json().catch(() => ({}));
+  const name = readName(body?.name);
+  const sourceId = readName(body?.sourceProject);
+
+  let projectId: string;
+  if (sourceId) {
+    if (!resolveProjectId(sid, sourceId)) {
+      return NextResponse.json({ error: "Unknown project" }, { status: 404 });
+    }
+    const copy = duplicateProject(sid, sourceId, name || `${getProject(sid, sourceId).name} (copy)`);
+    const copies = await copyProjectAssets(sid, sourceId, copy.id);
+    rewriteProjectUrls(sid, copy.id, (url) => copies.get(url) ?? url);
+    projectId = copy.id;
+  } else {
+    projectId = createProject(sid, name || "Untitled project").id;
+  }
+  setActiveProject(sid, projectId);
+  console.log(`📁 Created project ${projectId} - Session: ${sid}, Source: ${sourceId}`);
+  return NextResponse.json({ project: projectId, ...listProjects(sid) });
+}
+
+// Rename and/or switch to a project: { project, name?, activate? }
+export async function PATCH(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const body = await req.json().catch(() => ({}));
+  const requested = readName(body?.project);
+  const projectId = requested ? resolveProjectId(sid, requested) : null;
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
+  const name = readName(body?.name);
+  if (name) renameProject(sid, projectId, name);
+  if (body?.activate === true) setActiveProject(sid, projectId);
+  return NextResponse.json(listProjects(sid));
+}
+
+export async function DELETE(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const projectId = new URL(req.url).searchParams.get("project");
+  if (!projectId) return NextResponse.json({ error: "Missing project" }, { status: 400 });
+  const ok = deleteProject(sid, projectId);
+  if (!ok) {
+    return NextResponse.json({ error: "Project not found or it is the last one" }, { status: 409 });
+  }
+  await collectSessionGarbage(sid);
+  return NextResponse.json({ ok, ...listProjects(sid) });
+}
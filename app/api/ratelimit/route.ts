@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOrCreateSessionId } from "@/lib/session";
+import { clientIp, getQuota } from "@/lib/ratelimit";
+
+export const dynamic = "force-dynamic";
+
+// Generation requests left in the current window and generations running for this session
+export async function GET(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  return NextResponse.json({ quota: getQuota(sid, clientIp(req.headers)) });
+}
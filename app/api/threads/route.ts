@@ -1,27 +1,49 @@
 import { NextRequest, NextResponse } from "next/server";
-import { cloneThread, createThread, deleteThread } from "@/lib/store";
+import { cloneThread, createThread, deleteThread, getVersions, resolveProjectId } from "@/lib/store";
 import { getOrCreateSessionId } from "@/lib/session";
+import { collectSessionGarbage } from "@/lib/gc";
+import { readAsset } from "@/lib/assets";
 
 export const dynamic = "force-dynamic";
 
 export async function POST(req: NextRequest) {
   const sid = await getOrCreateSessionId();
+  const projectId = resolveProjectId(sid, new URL(req.url).searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
   let source: string | undefined;
+  let versionId: string | undefined;
   try {
     const body = await req.json().catch(() => ({}));
     if (typeof body?.sourceThread === "string" && body.sourceThread.trim()) {
       source = body.sourceThread.trim();
     }
+    if (typeof body?.versionId === "string" && body.versionId.trim()) {
+      versionId = body.versionId.trim();
+    }
   } catch {}
 
-  console.log(`🔗 Creating thread - Session: ${sid}, Source: ${source}`);
-  const thread = source ? cloneThread(sid, source) : createThread(sid);
+  // Forking a specific version (e.g. a candidate) makes it the new thread's base image
+  let baseVersion: { id: string; image: Buffer } | undefined;
+  if (source && versionId) {
+    const version = getVersions(sid, projectId, source).versions.find((v) => v.id === versionId);
+    if (!version) return NextResponse.json({ error: "Unknown version" }, { status: 404 });
+    try {
+      baseVersion = { id: version.id, image: await readAsset(sid, version.imageUrl) };
+    } catch {
+      return NextResponse.json({ error: "Version image is no longer available" }, { status: 410 });
+    }
+  }
+
+  console.log(`🔗 Creating thread - Session: ${sid}, Source: ${source}, Version: ${versionId}`);
+  const thread = source ? cloneThread(sid, projectId, source, undefined, baseVersion) : createThread(sid, projectId);
   console.log(`✅ Thread created: ${thread}`);
   return NextResponse.json({ thread });
 }
 
 export async function DELETE(req: NextRequest) {
   const sid = await getOrCreateSessionId();
+  const projectId = resolveProjectId(sid, new URL(req.url).searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
   let threadId: string | undefined;
   try {
     const url = new URL(req.url);
@@ -33,6 +55,7 @@ export async function DELETE(req: NextRequest) {
   } catch {}
 
   if (!threadId) return NextResponse.json({ error: "Missing thread" }, { status: 400 });
-  const ok = deleteThread(sid, threadId);
+  const ok = deleteThread(sid, projectId, threadId);
+  if (ok) await collectSessionGarbage(sid);
   return NextResponse.json({ ok });
 }
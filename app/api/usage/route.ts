@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveProjectId } from "@/lib/store";
+import { getOrCreateSessionId } from "@/lib/session";
+import { getUsage, PRICES } from "@/lib/usage";
+
+export const dynamic = "force-dynamic";
+
+// Token, video-second and cost totals for the session, the project and (with ?thread=) one thread
+export async function GET(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const url = new URL(req.url);
+  const projectId = resolveProjectId(sid, url.searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
+  const threadId = url.searchParams.get("thread") || undefined;
+  return NextResponse.json({ ...getUsage(sid, projectId, threadId), prices: PRICES });
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVersions, resolveProjectId } from "@/lib/store";
+import { getOrCreateSessionId } from "@/lib/session";
+import { readAsset } from "@/lib/assets";
+import { DEFAULT_VECTORIZE_OPTIONS, MAX_COLORS, MIN_COLORS, vectorize } from "@/lib/vectorize";
+
+export const dynamic = "force-dynamic";
+
+// Number from the query in [min, max], the fallback when absent, or null when invalid
+function readOption(params: URLSearchParams, name: string, min: number, max: number, fallback: number): number | null {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= min && n <= max ? n : null;
+}
+
+// SVG tracing of one version (default: the thread's current one).
+// ?colors=2–16&detail=0–1&smoothing=0–1; &download=1 serves it as an attachment.
+export async function GET(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const url = new URL(req.url);
+  const projectId = resolveProjectId(sid, url.searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
+  const threadId = url.searchParams.get("thread") || "default";
+
+  const colors = readOption(url.searchParams, "colors", MIN_COLORS, MAX_COLORS, DEFAULT_VECTORIZE_OPTIONS.colors);
+  const detail = readOption(url.searchParams, "detail", 0, 1, DEFAULT_VECTORIZE_OPTIONS.detail);
+  const smoothing = readOption(url.searchParams, "smoothing", 0, 1, DEFAULT_VECTORIZE_OPTIONS.smoothing);
+  if (colors === null || detail === null || smoothing === null) {
+    return NextResponse.json(
+      { error: `Invalid options: colors must be ${MIN_COLORS}–${MAX_COLORS}, detail and smoothing 0–1` },
+      { status: 400 }
+    );
+  }
+
+  const { versions, currentVersionId } = getVersions(sid, projectId, threadId);
+  const versionId = url.searchParams.get("version") || currentVersionId;
+  const version = versions.find((v) => v.id === versionId);
+  if (!version) return NextResponse.json({ error: "Unknown version" }, { status: 404 });
+
+  let source: Buffer;
+  try {
+    source = await readAsset(sid, version.imageUrl);
+  } catch {
+    return NextResponse.json({ error: "Version image is no longer available" }, { status: 410 });
+  }
+
+  const started = Date.now();
+  const svg = await vectorize(source, { colors, detail, smoothing });
+  console.log(`✒️ Vectorized ${version.id} (${colors} colors, ${svg.length} bytes) in ${Date.now() - started}ms - Session: ${sid}`);
+
+  const headers: Record<string, string> = {
+    "Content-Type": "image/svg+xml",
+    // Versions never change, so a URL naming one always traces to the same SVG
+    "Cache-Control": url.searchParams.get("version") ? "private, max-age=31536000, immutable" : "no-store",
+    "X-Content-Type-Options": "nosniff",
+  };
+  if (url.searchParams.get("download") === "1") {
+    headers["Content-Disposition"] = `attachment; filename="${version.id}.svg"`;
+  }
+  return new NextResponse(svg, { headers });
+}
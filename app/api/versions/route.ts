@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVersions, resolveProjectId, selectVersion, type ImageVersion } from "@/lib/store";
+import { getOrCreateSessionId } from "@/lib/session";
+import { readAsset } from "@/lib/assets";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const url = new URL(req.url);
+  const threadId = url.searchParams.get("thread") || "default";
+  const projectId = resolveProjectId(sid, url.searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
+  const { versions, currentVersionId } = getVersions(sid, projectId, threadId);
+  return NextResponse.json({ thread: threadId, versions, current: currentVersionId ?? null });
+}
+
+// Move the thread's current image: { thread, action: "undo" | "redo" | "revert", versionId? }
+export async function POST(req: NextRequest) {
+  const sid = await getOrCreateSessionId();
+  const projectId = resolveProjectId(sid, new URL(req.url).searchParams.get("project"));
+  if (!projectId) return NextResponse.json({ error: "Unknown project" }, { status: 404 });
+  const body = await req.json().catch(() => ({}));
+  const threadId = typeof body?.thread === "string" && body.thread.trim() ? body.thread.trim() : "default";
+  const action = body?.action;
+
+  const { versions, currentVersionId } = getVersions(sid, projectId, threadId);
+  const index = versions.findIndex((v) => v.id === currentVersionId);
+
+  let target: ImageVersion | undefined;
+  if (action === "undo") {
+    target = index > 0 ? versions[index - 1] : undefined;
+    if (!target) return NextResponse.json({ error: "Nothing to undo" }, { status: 409 });
+  } else if (action === "redo") {
+    target = index >= 0 && index < versions.length - 1 ? versions[index + 1] : undefined;
+    if (!target) return NextResponse.json({ error: "Nothing to redo" }, { status: 409 });
+  } else if (action === "revert") {
+    target = versions.find((v) => v.id === body?.versionId);
+    if (!target) return NextResponse.json({ error: "Unknown version" }, { status: 404 });
+  } else {
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+  }
+
+  let buf: Buffer;
+  try {
+    buf = await readAsset(sid, target.imageUrl);
+  } catch {
+    return NextResponse.json({ error: "Version image is no longer available" }, { status: 410 });
+  }
+  selectVersion(sid, projectId, threadId, target.id, buf);
+
+  return NextResponse.json({ thread: threadId, versions, current: target.id });
+}
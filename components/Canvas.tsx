@@ -1,65 +1,50 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Chat from "@/components/Chat";
 import ModelSelector from "@/components/ModelSelector";
 import PromptTemplateSelector from "@/components/PromptTemplateSelector";
+import ProjectSelector, { type ProjectOption } from "@/components/ProjectSelector";
+import UsagePanel from "@/components/UsagePanel";
+import type { ModelInfo } from "@/lib/models";
 
 type Pos = { x: number; y: number };
 type Size = { width: number; height: number };
 type Transform = { x: number; y: number; scale: number };
+type Edge = { from: string; to: string };
+type Flow = { id: string; pos: Pos; name: string };
 
-function usePositions(key: string) {
-  const [positions, setPositions] = useState<Record<string, Pos>>({});
-  useEffect(() => {
-    try {
-      const raw = localStorage.getItem(key);
-      if (raw) setPositions(JSON.parse(raw));
-    } catch {}
-  }, [key]);
-  useEffect(() => {
-    try {
-      localStorage.setItem(key, JSON.stringify(positions));
-    } catch {}
-  }, [key, positions]);
-  return [positions, setPositions] as const;
-}
+// Graph of a project that has never been saved
+const INITIAL_FLOW: Flow = { id: "default", pos: { x: 40, y: 40 }, name: "Chat" };
 
-function useSizes(key: string) {
-  const [sizes, setSizes] = useState<Record<string, Size>>({});
-  useEffect(() => {
-    try {
-      const raw = localStorage.getItem(key);
-      if (raw) setSizes(JSON.parse(raw));
-    } catch {}
-  }, [key]);
-  useEffect(() => {
-    try {
-      localStorage.setItem(key, JSON.stringify(sizes));
-    } catch {}
-  }, [key, sizes]);
-  return [sizes, setSizes] as const;
-}
+// Shape of GET/PUT /api/canvas
+type CanvasGraph = {
+  nodes: { id: string; name: string; pos: Pos; size?: Size }[];
+  edges: Edge[];
+  active?: string;
+};
+
+const DEFAULT_SIZE: Size = { width: 480, height: 320 };
 
 function ResizableDraggableBox({
   id,
-  initial,
-  initialSize = { width: 480, height: 320 },
+  pos,
+  size = DEFAULT_SIZE,
+  onMove,
+  onResize,
   children,
   handleSelector = ".drag-handle",
   autoResize = false,
 }: {
   id: string;
-  initial: Pos;
-  initialSize?: Size;
+  pos: Pos;
+  size?: Size;
+  onMove: (id: string, pos: Pos) => void;
+  onResize: (id: string, size: Size) => void;
   children: React.ReactNode;
   handleSelector?: string;
   autoResize?: boolean;
 }) {
-  const [positions, setPositions] = usePositions("canvas-positions");
-  const [sizes, setSizes] = useSizes("canvas-sizes");
-  const pos = positions[id] || initial;
-  const size = sizes[id] || initialSize;
   const contentRef = useRef<HTMLDivElement>(null);
   const dragging = useRef<{ dx: number; dy: number } | null>(null);
   const resizing = useRef<{ corner: string; startX: number; startY: number; startWidth: number; startHeight: number } | null>(null);
@@ -100,20 +85,14 @@ function ResizableDraggableBox({
       const idealHeight = Math.max(minHeight, Math.min(maxHeight, scrollHeight + headerHeight + padding));
       
       // Only auto-resize if content has grown significantly (not shrunk)
-      const currentSize = sizes[id] || initialSize;
+      const currentSize = size;
       const shouldResize = (idealHeight > currentSize.height + 50) || 
                           (idealWidth > currentSize.width + 50) ||
                           (currentSize.width < minWidth || currentSize.height < minHeight);
       
       if (shouldResize) {
         lastAutoResize.current = Date.now();
-        setSizes((s) => ({ 
-          ...s, 
-          [id]: { 
-            width: idealWidth, 
-            height: idealHeight 
-          } 
-        }));
+        onResize(id, { width: idealWidth, height: idealHeight });
       }
     };
 
@@ -135,7 +114,7 @@ function ResizableDraggableBox({
       resizeObserver.disconnect();
       mutationObserver.disconnect();
     };
-  }, [autoResize, id, setSizes, sizes, initialSize]);
+  }, [autoResize, id, onResize, size]);
 
   const onPointerDown = (e: React.PointerEvent) => {
     const el = e.target as HTMLElement;
@@ -180,13 +159,13 @@ function ResizableDraggableBox({
       // Mark as manually resized to prevent auto-resize interference
       manuallyResized.current = true;
       
-      setSizes((s) => ({ ...s, [id]: { width: newWidth, height: newHeight } }));
+      onResize(id, { width: newWidth, height: newHeight });
       return;
     }
     
     if (dragging.current) {
       const { dx, dy } = dragging.current;
-      setPositions((p) => ({ ...p, [id]: { x: e.clientX - dx, y: e.clientY - dy } }));
+      onMove(id, { x: e.clientX - dx, y: e.clientY - dy });
     }
   };
 
@@ -239,6 +218,34 @@ export default function Canvas() {
   // Model and prompt template state
   const [model, setModel] = useState<string>("gemini-2.5-flash-image-preview");
   const [promptTemplate, setPromptTemplate] = useState<string>("logo");
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [cacheEnabled, setCacheEnabled] = useState(false);
+
+  // Available models come from the server, which knows which API keys are configured
+  useEffect(() => {
+    fetch("/api/models")
+      .then((r) => r.json())
+      .then((j: { models: ModelInfo[]; cache?: boolean }) => {
+        setModels(j.models);
+        setCacheEnabled(!!j.cache);
+        // Fall back to the first usable model if the default one isn't configured
+        setModel((m) => (j.models.find((x) => x.id === m)?.enabled ? m : j.models.find((x) => x.enabled)?.id ?? m));
+      })
+      .catch((e) => console.error("Failed to load models", e));
+  }, []);
+  const modelOptions = useMemo(
+    () =>
+      models.map((m) => ({
+        id: m.id,
+        label: m.label,
+        provider: m.provider,
+        icon: m.icon,
+        disabled: !m.enabled,
+        note: m.disabledReason,
+      })),
+    [models]
+  );
+  const modelCapabilities = models.find((m) => m.id === model)?.capabilities;
 
   // Background grid style
   const bgStyle: React.CSSProperties = useMemo(
@@ -256,12 +263,19 @@ export default function Canvas() {
   );
 
   // Layout defaults
-  const chatInitial: Pos = { x: 40, y: 40 };
+  const chatInitial: Pos = INITIAL_FLOW.pos;
   
-  type Flow = { id: string; pos: Pos; name: string };
-  const [flows, setFlows] = useState<Flow[]>([{ id: "default", pos: chatInitial, name: "Chat" }]);
+  const [flows, setFlows] = useState<Flow[]>([INITIAL_FLOW]);
   const [active, setActive] = useState<string>("default");
-  const [edges, setEdges] = useState<{ from: string; to: string }[]>([]);
+  const [edges, setEdges] = useState<Edge[]>([]);
+  const [positions, setPositions] = useState<Record<string, Pos>>({});
+  const [sizes, setSizes] = useState<Record<string, Size>>({});
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [project, setProject] = useState<string | null>(null);
+  // Project whose saved graph is currently shown; nothing is saved until it matches `project`,
+  // so a project's graph is never overwritten with the previous project's (or the default) state
+  const [loadedProject, setLoadedProject] = useState<string | null>(null);
+  const projectQuery = project ? `project=${encodeURIComponent(project)}` : "";
   console.log('DEBUG: Current edges state:', edges);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const nodeRefs = useRef<Map<string, HTMLDivElement>>(new Map());
@@ -280,14 +294,149 @@ export default function Canvas() {
     edgesRef.current = edges;
   }, [edges]);
 
-  async function createFlowFrom(sourceId: string) {
+  const moveNode = useCallback((id: string, pos: Pos) => {
+    setPositions((p) => ({ ...p, [id]: pos }));
+  }, []);
+  const resizeNode = useCallback((id: string, size: Size) => {
+    setSizes((s) => ({ ...s, [id]: size }));
+  }, []);
+
+  // Pick up the session's projects and start in the active one
+  useEffect(() => {
+    fetch("/api/projects")
+      .then((r) => r.json())
+      .then((j: { projects: ProjectOption[]; active: string }) => {
+        setProjects(j.projects);
+        setProject(j.active);
+      })
+      .catch((e) => console.error("Could not load projects", e));
+  }, []);
+
+  // Rebuild the graph saved for the current project
+  useEffect(() => {
+    if (!project) return;
+    let cancelled = false;
+    setLoadedProject(null);
+    fetch(`/api/canvas?project=${encodeURIComponent(project)}`)
+      .then((r) => r.json())
+      .then((j: { canvas: CanvasGraph | null }) => {
+        if (cancelled) return;
+        const nodes = j.canvas?.nodes ?? [];
+        if (!j.canvas || nodes.length === 0) {
+          setFlows([INITIAL_FLOW]);
+          setPositions({});
+          setSizes({});
+          setEdges([]);
+          setActive(INITIAL_FLOW.id);
+          return;
+        }
+        setFlows(nodes.map((n) => ({ id: n.id, pos: n.pos, name: n.name })));
+        setPositions(Object.fromEntries(nodes.map((n) => [n.id, n.pos])));
+        setSizes(Object.fromEntries(nodes.filter((n) => n.size).map((n) => [n.id, n.size as Size])));
+        setEdges(j.canvas.edges);
+        setActive(j.canvas.active || nodes[0].id);
+      })
+      .catch((e) => console.error("Could not load canvas", e))
+      .finally(() => {
+        if (!cancelled) setLoadedProject(project);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [project]);
+
+  // Save the graph whenever it changes (debounced; dragging fires many updates)
+  useEffect(() => {
+    if (!project || loadedProject !== project) return;
+    const graph: CanvasGraph = {
+      nodes: flows.map((f) => ({ id: f.id, name: f.name, pos: positions[f.id] || f.pos, size: sizes[f.id] })),
+      edges,
+      active,
+    };
+    const timeout = setTimeout(() => {
+      fetch(`/api/canvas?project=${encodeURIComponent(project)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(graph),
+      }).catch((e) => console.error("Could not save canvas", e));
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [project, loadedProject, flows, edges, positions, sizes, active]);
+
+  async function projectRequest(method: string, body?: Record<string, unknown> | FormData, query = "", path = "/api/projects") {
+    const res = await fetch(`${path}${query}`, {
+      method,
+      headers: body instanceof FormData ? undefined : { "Content-Type": "application/json" },
+      body: body instanceof FormData ? body : body ? JSON.stringify(body) : undefined,
+    });
+    const j = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(j?.error || `Request failed: ${res.status}`);
+    setProjects(j.projects);
+    return j as { project?: string; projects: ProjectOption[]; active: string };
+  }
+
+  async function runProjectAction(action: () => Promise<void>) {
+    try {
+      await action();
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  const switchProject = (id: string) =>
+    runProjectAction(async () => {
+      await projectRequest("PATCH", { project: id, activate: true });
+      setProject(id);
+    });
+
+  const newProject = () =>
+    runProjectAction(async () => {
+      const name = prompt("Project name", "Untitled project");
+      if (name === null) return;
+      const j = await projectRequest("POST", { name });
+      setProject(j.project || j.active);
+    });
+
+  const renameProject = (id: string) =>
+    runProjectAction(async () => {
+      const current = projects.find((p) => p.id === id);
+      const name = prompt("Rename project", current?.name);
+      if (!name || !name.trim()) return;
+      await projectRequest("PATCH", { project: id, name: name.trim() });
+    });
+
+  const duplicateProject = (id: string) =>
+    runProjectAction(async () => {
+      const j = await projectRequest("POST", { sourceProject: id });
+      setProject(j.project || j.active);
+    });
+
+  const deleteProject = (id: string) =>
+    runProjectAction(async () => {
+      const current = projects.find((p) => p.id === id);
+      if (!confirm(`Delete project "${current?.name}" with all its threads and outputs?`)) return;
+      const j = await projectRequest("DELETE", undefined, `?project=${encodeURIComponent(id)}`);
+      if (id === project) setProject(j.active);
+    });
+
+  const importProject = (file: File) =>
+    runProjectAction(async () => {
+      const fd = new FormData();
+      fd.append("file", file);
+      const j = await projectRequest("POST", fd, "", "/api/import");
+      setProject(j.project || j.active);
+    });
+
+  // `versionId` forks from that version of the source (e.g. a candidate) instead of its current image
+  async function createFlowFrom(sourceId: string, versionId?: string) {
     try {
-      const res = await fetch("/api/threads", {
+      const res = await fetch(`/api/threads?${projectQuery}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ sourceThread: sourceId }),
+        body: JSON.stringify({ sourceThread: sourceId, versionId }),
       });
       const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || `Request failed: ${res.status}`);
       const id: string = j.thread || `t-${Date.now()}`;
       setFlows((f) => {
         const src = f.find((x) => x.id === sourceId) || f[f.length - 1];
@@ -548,8 +697,16 @@ export default function Canvas() {
           cursor: isPanning ? 'grabbing' : 'grab'
         }}
       >
-      {flows.map((flow) => (
-        <ResizableDraggableBox key={flow.id} id={`chat-${flow.id}`} initial={flow.pos} autoResize={true}>
+      {project && loadedProject === project && flows.map((flow) => (
+        <ResizableDraggableBox
+          key={`${project}:${flow.id}`}
+          id={flow.id}
+          pos={positions[flow.id] || flow.pos}
+          size={sizes[flow.id]}
+          onMove={moveNode}
+          onResize={resizeNode}
+          autoResize={true}
+        >
           <div
             ref={(el) => {
               if (el) nodeRefs.current.set(flow.id, el);
@@ -578,11 +735,7 @@ export default function Canvas() {
                   <ModelSelector
                     value={model}
                     onChange={setModel}
-                    options={[
-                                          { id: "gemini-2.5-flash-image-preview", label: "Gemini 2.5 Flash Image", provider: "Gemini", icon: "/google_logo.png" },
-                    { id: "veo-3.0-generate-preview", label: "Veo 3 Video Generation", provider: "Gemini", icon: "/google_logo.png" },
-                      { id: "gpt-5", label: "GPT-5 (UI only)", provider: "OpenAI", icon: "/openai-logo.png" },
-                    ]}
+                    options={modelOptions}
                   />
                 </div>
                 {/* Rename */}
@@ -607,12 +760,22 @@ export default function Canvas() {
                     if (!ok) return;
                     setFlows((f) => f.filter((x) => x.id !== flow.id));
                     setEdges((e) => e.filter((ed) => ed.from !== flow.id && ed.to !== flow.id));
+                    setPositions((p) => {
+                      const next = { ...p };
+                      delete next[flow.id];
+                      return next;
+                    });
+                    setSizes((s) => {
+                      const next = { ...s };
+                      delete next[flow.id];
+                      return next;
+                    });
                     if (active === flow.id) {
                       const remaining = flows.filter((x) => x.id !== flow.id);
                       setActive(remaining[0]?.id || "default");
                     }
                     try {
-                      await fetch(`/api/threads?thread=${encodeURIComponent(flow.id)}`, { method: "DELETE" });
+                      await fetch(`/api/threads?${projectQuery}&thread=${encodeURIComponent(flow.id)}`, { method: "DELETE" });
                     } catch {}
                   }}
                 >
@@ -621,7 +784,15 @@ export default function Canvas() {
               </div>
             </div>
             <div className="p-4">
-              <Chat modelId={model} threadId={flow.id} templateId={promptTemplate} />
+              <Chat
+                modelId={model}
+                capabilities={modelCapabilities}
+                cacheEnabled={cacheEnabled}
+                projectId={project}
+                threadId={flow.id}
+                templateId={promptTemplate}
+                onFork={(versionId) => createFlowFrom(flow.id, versionId)}
+              />
             </div>
             <button
               className="absolute top-1/2 -translate-y-1/2 -right-6 rounded-full w-10 h-10 bg-blue-600 text-white shadow-lg hover:bg-blue-700"
@@ -635,6 +806,33 @@ export default function Canvas() {
       ))}
       </div>
 
+      {/* Project switcher */}
+      {project && (
+        <div className="fixed top-4 right-4 z-50">
+          <ProjectSelector
+            value={project}
+            projects={projects}
+            onSwitch={switchProject}
+            onCreate={newProject}
+            onRename={renameProject}
+            onDuplicate={duplicateProject}
+            onDelete={deleteProject}
+            onImport={importProject}
+          />
+        </div>
+      )}
+
+      {/* Usage and cost */}
+      {project && (
+        <div className="fixed bottom-4 left-4 w-80 z-50">
+          <UsagePanel
+            projectId={project}
+            threadId={active}
+            modelLabels={Object.fromEntries(models.map((m) => [m.id, m.label]))}
+          />
+        </div>
+      )}
+
       {/* Zoom controls */}
       <div className="fixed bottom-4 right-4 flex flex-col gap-2 z-50">
         <button
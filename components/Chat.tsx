@@ -1,76 +1,578 @@
 "use client";
 
 import useSWR, { mutate } from "swr";
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import Image from "next/image";
+import type { ModelCapabilities } from "@/lib/models";
+import { OUTPUT_SIZES, getTemplateAspectRatios, type AspectRatio, type ResponseDetails, type VideoOptions } from "@/lib/gemini";
+import type { CallUsage } from "@/lib/usage";
+import type { RateLimitQuota } from "@/lib/ratelimit";
+import type { VectorizeOptions } from "@/lib/vectorize";
+import { USAGE_KEY_PREFIX } from "@/components/UsagePanel";
 
 type ChatMessage = {
   id: string;
   role: "user" | "assistant";
   text?: string;
   imageUrl?: string;
+  videoUrl?: string;
+  versionId?: string;
+  candidates?: { versionId: string; imageUrl: string }[];
+  details?: Omit<ResponseDetails, "text" | "usage">;
+  usage?: CallUsage;
+  cached?: boolean;
   timestamp: number;
 };
 
+type ImageVersion = {
+  id: string;
+  imageUrl: string;
+  prompt: string;
+  timestamp: number;
+};
+
+type Job = {
+  id: string;
+  status: "queued" | "running" | "done" | "failed" | "cancelled";
+  progress?: { done: number; total: number };
+  error?: string;
+};
+
+const isActiveJob = (j: Job) => j.status === "queued" || j.status === "running";
+
+// Events of a streamed POST /api/messages (see lib/generation.ts)
+type GenerationEvent =
+  | { type: "accepted" }
+  | { type: "base_image"; source: "upload" | "theme" | "last" | "none" }
+  | { type: "upstream"; provider: string; count: number }
+  | { type: "polling"; attempt: number; maxAttempts: number }
+  | { type: "cache_hit" }
+  | { type: "postprocess" }
+  | { type: "background"; removed: boolean }
+  | { type: "saved" }
+  | { type: "job" }
+  | { type: "retry"; attempt: number; code: string; delayMs: number }
+  | { type: "error"; error: string }
+  | { type: "done"; status: number; body: ErrorInfo & { error?: string } };
+
+// Typed error fields of a failed /api/messages response (see lib/errors.ts)
+type ErrorInfo = { code?: string; retryable?: boolean; retryAfter?: number; details?: ResponseDetails };
+
+class RequestError extends Error {
+  constructor(message: string, readonly info: ErrorInfo) {
+    super(message);
+  }
+}
+
+const ERROR_HINTS: Record<string, string> = {
+  rate_limited: "The provider is rate limiting requests. Wait a moment, then retry.",
+  quota_exhausted: "The API quota for this model is used up.",
+  safety_blocked: "The prompt or the result was blocked by safety filters. Try rephrasing it.",
+  invalid_key: "The server's API key for this model is missing or invalid.",
+  timeout: "The provider did not answer in time.",
+  no_image: "The model answered without an image.",
+  quota_exceeded: "This session's storage is full. Delete threads or projects to free space.",
+  throttled: "You've reached this app's generation limit. Send unlocks when the cooldown ends.",
+  busy: "Too many generations are running in this session at once.",
+};
+
+// Finish/block reasons that mean the output was withheld, in words
+const BLOCK_REASONS: Record<string, string> = {
+  SAFETY: "The reply was stopped by safety filters",
+  IMAGE_SAFETY: "The generated image was withheld by safety filters",
+  PROHIBITED_CONTENT: "The request touches prohibited content",
+  BLOCKLIST: "The prompt contains blocked terms",
+  SPII: "The reply would have contained sensitive personal information",
+  RECITATION: "The reply was too close to existing material",
+  OTHER: "The prompt was blocked",
+};
+
+// "HARM_CATEGORY_DANGEROUS_CONTENT" -> "dangerous content"
+const categoryLabel = (category: string) => category.replace(/^HARM_CATEGORY_/, "").replace(/_/g, " ").toLowerCase();
+
+// Why a reply was blocked, naming the categories that were flagged; null if it wasn't blocked
+function explainBlock(details?: Omit<ResponseDetails, "text">): string | null {
+  if (!details) return null;
+  const reason = details.blockReason
+    ? `Your prompt was blocked (${BLOCK_REASONS[details.blockReason] ?? details.blockReason})`
+    : details.finishReason && BLOCK_REASONS[details.finishReason];
+  if (!reason) return null;
+  const flagged = (details.safetyRatings ?? []).filter(
+    (r) => r.blocked || r.probability === "MEDIUM" || r.probability === "HIGH"
+  );
+  if (flagged.length === 0) return `${reason}.`;
+  return `${reason}. Flagged: ${flagged.map((r) => `${categoryLabel(r.category)} (${r.probability.toLowerCase()})`).join(", ")}.`;
+}
+
+// Finish reason, safety ratings and usage of one reply, collapsed by default
+function ResponseInfo({ details = {}, usage }: { details?: Omit<ResponseDetails, "text" | "usage">; usage?: CallUsage }) {
+  const { finishReason, safetyRatings } = details;
+  if (!finishReason && !safetyRatings?.length && !usage) return null;
+  return (
+    <details className="mt-1 text-xs text-neutral-600">
+      <summary className="cursor-pointer select-none opacity-70">Response details</summary>
+      <div className="mt-1 space-y-0.5">
+        {finishReason && <div>Finish reason: {finishReason}</div>}
+        {safetyRatings?.map((r, i) => (
+          <div key={i} className={r.blocked ? "text-red-700" : undefined}>
+            {categoryLabel(r.category)}: {r.probability.toLowerCase()}
+            {r.blocked ? " (blocked)" : ""}
+          </div>
+        ))}
+        {usage && (
+          <div>
+            {usage.calls} call{usage.calls === 1 ? "" : "s"} in {(usage.latencyMs / 1000).toFixed(1)}s
+            {usage.promptTokens !== undefined || usage.outputTokens !== undefined
+              ? ` · ${usage.promptTokens ?? "?"} tokens in / ${usage.outputTokens ?? "?"} out`
+              : ""}
+            {usage.videoSeconds ? ` · ${usage.videoSeconds}s of video` : ""}
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
+
+// Behind previews so transparent areas of an image show as such
+const CHECKERBOARD: React.CSSProperties = {
+  background: "repeating-conic-gradient(#e5e5e5 0% 25%, #ffffff 0% 50%) 50% / 16px 16px",
+};
+
+// Same as DEFAULT_VECTORIZE_OPTIONS; lib/vectorize is server-only
+const VECTOR_DEFAULTS: VectorizeOptions = { colors: 6, detail: 0.5, smoothing: 0.5 };
+
+// SVG tracing of a version next to its raster, with palette/detail/smoothing controls.
+// `query` selects the version (project, thread, version) for /api/vectorize.
+function VectorPreview({ query, imageUrl }: { query: string; imageUrl: string }) {
+  const [options, setOptions] = useState(VECTOR_DEFAULTS);
+  // Slider moves are applied after a pause so dragging doesn't trace every step
+  const [applied, setApplied] = useState(VECTOR_DEFAULTS);
+  useEffect(() => {
+    const t = setTimeout(() => setApplied(options), 400);
+    return () => clearTimeout(t);
+  }, [options]);
+  const src = `/api/vectorize?${query}&colors=${applied.colors}&detail=${applied.detail}&smoothing=${applied.smoothing}`;
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+  const loading = loadedSrc !== src;
+
+  const slider = (key: keyof VectorizeOptions, label: string, min: number, max: number, step: number) => (
+    <label className="flex items-center gap-2">
+      <span className="w-16">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={options[key]}
+        onChange={(e) => setOptions({ ...options, [key]: Number(e.target.value) })}
+        className="flex-1"
+      />
+      <span className="w-8 text-right">{key === "colors" ? options[key] : options[key].toFixed(1)}</span>
+    </label>
+  );
+
+  return (
+    <div className="mt-2 rounded border p-2 text-xs text-neutral-800 bg-white">
+      <div className="grid grid-cols-2 gap-2">
+        <figure>
+          <Image src={imageUrl} alt="Raster" width={256} height={256} unoptimized style={CHECKERBOARD} className="w-full h-auto rounded border" />
+          <figcaption className="mt-1 text-center opacity-60">PNG</figcaption>
+        </figure>
+        <figure className={loading ? "opacity-50" : undefined}>
+          <Image
+            src={src}
+            alt="Vectorized"
+            width={256}
+            height={256}
+            unoptimized
+            onLoad={() => setLoadedSrc(src)}
+            onError={() => setLoadedSrc(src)}
+            style={CHECKERBOARD}
+            className="w-full h-auto rounded border"
+          />
+          <figcaption className="mt-1 text-center opacity-60">{loading ? "Tracing…" : "SVG"}</figcaption>
+        </figure>
+      </div>
+      <div className="mt-2 space-y-1">
+        {slider("colors", "Colors", 2, 16, 1)}
+        {slider("detail", "Detail", 0, 1, 0.1)}
+        {slider("smoothing", "Smoothing", 0, 1, 0.1)}
+      </div>
+      <a href={`${src}&download=1`} download className="mt-2 inline-block rounded border px-2 py-1 hover:bg-neutral-50">
+        ⬇ Download SVG
+      </a>
+    </div>
+  );
+}
+
+const BASE_IMAGE_LABELS = {
+  upload: "Using your uploaded image",
+  theme: "Using the selected theme",
+  last: "Editing the current image",
+  none: "Starting from scratch",
+};
+
+function describeEvent(e: GenerationEvent): string | null {
+  switch (e.type) {
+    case "accepted":
+      return "Prompt received";
+    case "base_image":
+      return BASE_IMAGE_LABELS[e.source];
+    case "upstream":
+      return e.count > 1 ? `Asking ${e.provider} for ${e.count} candidates…` : `Asking ${e.provider}…`;
+    case "polling":
+      return `Waiting for the video (check ${e.attempt}/${e.maxAttempts})`;
+    case "cache_hit":
+      return "Reusing a cached result";
+    case "postprocess":
+      return "Fitting to the chosen size as PNG";
+    case "background":
+      return e.removed ? "Removed the background" : "No plain background found; kept it";
+    case "saved":
+      return "Saved";
+    case "job":
+      return "Video job started";
+    case "retry":
+      return `Retrying after ${e.code.replace(/_/g, " ")} (attempt ${e.attempt + 1})…`;
+    case "error":
+      return e.error;
+    default:
+      return null;
+  }
+}
+
+// Read a text/event-stream response, passing each event to `onEvent`; resolves with the final "done" event
+async function readEvents(res: Response, onEvent: (e: GenerationEvent) => void) {
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let done: Extract<GenerationEvent, { type: "done" }> | undefined;
+  for (;;) {
+    const { value, done: end } = await reader.read();
+    if (end) break;
+    buffer += value;
+    let sep: number;
+    while ((sep = buffer.indexOf("\n\n")) >= 0) {
+      const data = buffer
+        .slice(0, sep)
+        .split("\n")
+        .filter((l) => l.startsWith("data:"))
+        .map((l) => l.slice(5).trimStart())
+        .join("\n");
+      buffer = buffer.slice(sep + 2);
+      if (!data) continue;
+      const event = JSON.parse(data) as GenerationEvent;
+      if (event.type === "done") done = event;
+      else onEvent(event);
+    }
+  }
+  return done;
+}
+
 const fetcher = (url: string) => fetch(url).then((r) => r.json());
 
-export default function Chat({ modelId, compact, threadId = "default", templateId }: { modelId?: string; compact?: boolean; threadId?: string; templateId?: string }) {
-  const swrKey = `/api/messages?thread=${encodeURIComponent(threadId)}`;
+const RATE_LIMIT_KEY = "/api/ratelimit";
+
+export default function Chat({
+  modelId,
+  capabilities,
+  cacheEnabled,
+  compact,
+  projectId,
+  threadId = "default",
+  templateId,
+  onFork,
+}: {
+  modelId?: string;
+  capabilities?: ModelCapabilities;
+  cacheEnabled?: boolean; // server may answer identical image requests from its generation cache
+  compact?: boolean;
+  projectId?: string;
+  threadId?: string;
+  templateId?: string;
+  onFork?: (versionId: string) => void;
+}) {
+  // Without a project the server falls back to the session's active one
+  const projectQuery = projectId ? `project=${encodeURIComponent(projectId)}&` : "";
+  const swrKey = `/api/messages?${projectQuery}thread=${encodeURIComponent(threadId)}`;
   const { data, isLoading } = useSWR<{ thread: string; messages: ChatMessage[] }>(swrKey, fetcher, {
     refreshInterval: 0,
   });
+  const versionsKey = `/api/versions?${projectQuery}thread=${encodeURIComponent(threadId)}`;
+  const { data: versionsData } = useSWR<{ thread: string; versions: ImageVersion[]; current: string | null }>(versionsKey, fetcher, {
+    refreshInterval: 0,
+  });
+  // Background jobs (video) of this thread; polled only while one is in progress
+  const jobsKey = `/api/jobs?${projectQuery}thread=${encodeURIComponent(threadId)}`;
+  const { data: jobsData } = useSWR<{ thread: string; jobs: Job[] }>(jobsKey, fetcher, {
+    refreshInterval: (d) => (d?.jobs?.some(isActiveJob) ? 2000 : 0),
+  });
+  const activeJob = jobsData?.jobs?.filter(isActiveJob).slice(-1)[0];
   const { data: themesData } = useSWR<{ themes: { name: string; url: string }[] }>("/api/themes", fetcher, {
     refreshInterval: 0,
   });
   const [message, setMessage] = useState("");
   const [file, setFile] = useState<File | null>(null);
   const [pending, setPending] = useState(false);
+  const [count, setCount] = useState(1);
+  // Bypass the generation cache for the next sends
+  const [fresh, setFresh] = useState(false);
+  // Key out the background of generated images (see removeBackground in lib/image.ts)
+  const [transparent, setTransparent] = useState(false);
+  // Brief from /api/enhance now in the prompt box, with what the user had typed before
+  const [enhancement, setEnhancement] = useState<{ id: string; original: string } | null>(null);
+  const [enhancing, setEnhancing] = useState(false);
+  const maxCandidates = capabilities?.maxCandidates ?? 4;
+  const candidateCount = Math.min(count, maxCandidates);
+  // Output shape of image models; falls back to the template's default when it doesn't offer the pick
+  const aspectRatios = getTemplateAspectRatios(templateId);
+  const [aspect, setAspect] = useState<AspectRatio | null>(null);
+  const aspectRatio = capabilities?.kind === "video" ? undefined : aspect && aspectRatios.includes(aspect) ? aspect : aspectRatios[0];
+  // Veo options; only sent (and shown) for video models. Unset fields use the model's defaults.
+  const videoCaps = capabilities?.kind === "video" ? capabilities.video : undefined;
+  const [videoOptions, setVideoOptions] = useState<VideoOptions>({});
+  const videoRequest: VideoOptions | undefined = videoCaps && {
+    ...videoOptions,
+    negativePrompt: videoOptions.negativePrompt?.trim() || undefined,
+  };
+  const transparentRequest = transparent && capabilities?.kind !== "video";
+  // Live progress of the request in flight, one line per step
+  const [steps, setSteps] = useState<string[]>([]);
+  // Last failed send, shown inline with a Retry button that re-sends the same request
+  const [error, setError] = useState<(ErrorInfo & { message: string; request: SendRequest }) | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const [selectedTheme, setSelectedTheme] = useState<string | null>(null);
+  // Generation requests left in the server's rate limit window
+  const { data: quotaData } = useSWR<{ quota: RateLimitQuota }>(RATE_LIMIT_KEY, fetcher, { refreshInterval: 0 });
+  const quota = quotaData?.quota;
+  // After a 429 the form waits out the Retry-After instead of letting the user hammer Send
+  const [cooldownUntil, setCooldownUntil] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const cooldown = Math.max(0, Math.ceil((cooldownUntil - now) / 1000));
+  useEffect(() => {
+    if (cooldownUntil <= Date.now()) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= cooldownUntil) {
+        clearInterval(timer);
+        mutate(RATE_LIMIT_KEY);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [cooldownUntil]);
 
   const messages = data?.messages ?? [];
   
+  const versions = versionsData?.versions ?? [];
+  const currentIndex = versions.findIndex((v) => v.id === versionsData?.current);
+  const currentVersion = currentIndex >= 0 ? versions[currentIndex] : undefined;
+
   // Get only the latest generated image/video
-  const latestImage = messages.filter(m => m.imageUrl || m.videoUrl).slice(-1)[0];
-  
+  const latestMedia = messages.filter(m => m.imageUrl || m.videoUrl).slice(-1)[0];
+
+  // Show the thread's current version unless a newer video was generated after it
+  const latestImage =
+    currentVersion && !(latestMedia?.videoUrl && latestMedia.timestamp > currentVersion.timestamp)
+      ? { imageUrl: currentVersion.imageUrl, videoUrl: undefined, text: undefined }
+      : latestMedia;
+
+  // A job finishing attaches its video (or error) to the thread, so reload the messages
+  const activeJobId = activeJob?.id;
+  const prevJobId = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (prevJobId.current && prevJobId.current !== activeJobId) {
+      mutate(swrKey);
+      mutate((key) => typeof key === "string" && key.startsWith(USAGE_KEY_PREFIX));
+    }
+    prevJobId.current = activeJobId;
+  }, [activeJobId, swrKey]);
+
+  async function cancelJob(id: string) {
+    try {
+      await fetch(`/api/jobs/${encodeURIComponent(id)}`, { method: "DELETE" });
+    } finally {
+      await mutate(jobsKey);
+    }
+  }
+
+  // Reply that produced the shown image: its commentary and response details go below it
+  const shownMessage = currentVersion
+    ? messages.find((m) => m.versionId === currentVersion.id || m.candidates?.some((c) => c.versionId === currentVersion.id))
+    : latestMedia;
+  const shownReply = shownMessage && latestImage?.imageUrl && shownMessage.text !== "Inherited from parent node" ? shownMessage : undefined;
+
+  // Selects the shown version for the asset pack and SVG routes
+  const versionQuery = `${projectQuery}thread=${encodeURIComponent(threadId)}&version=${encodeURIComponent(currentVersion?.id ?? "")}`;
+  const [showVector, setShowVector] = useState(false);
+
+  // Candidates of the latest generation, shown as a grid to pick the next base from
+  const candidates = latestMedia?.candidates ?? [];
+
   // Check if the latest image is inherited
-  const isInherited = latestImage?.text === "Inherited from parent node";
+  const isInherited = latestMedia?.text === "Inherited from parent node" && latestImage?.imageUrl === latestMedia?.imageUrl;
 
-  async function onSubmit(e: React.FormEvent) {
-    e.preventDefault();
-    if (!message.trim() && !file) return;
+  async function changeVersion(action: "undo" | "redo" | "revert", versionId?: string) {
+    try {
+      const res = await fetch(`/api/versions?${projectQuery}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ thread: threadId, action, versionId }),
+      });
+      if (!res.ok) {
+        const j = await res.json().catch(() => ({}));
+        throw new Error(j?.error || `Request failed: ${res.status}`);
+      }
+      await mutate(versionsKey, await res.json(), { revalidate: false });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      alert(msg);
+    }
+  }
+
+  // Everything needed to send (or re-send) one prompt
+  type SendRequest = {
+    message: string;
+    file: File | null;
+    theme: string | null;
+    count: number;
+    aspectRatio?: AspectRatio;
+    video?: VideoOptions;
+    fresh: boolean;
+    transparent?: boolean;
+    enhancement?: string; // id of the enhancement the message is based on
+  };
+
+  async function send(request: SendRequest) {
     setPending(true);
+    setSteps([]);
+    setError(null);
     try {
       let res: Response;
-      if (file) {
+      if (request.file) {
         const fd = new FormData();
-        fd.append("message", message);
-        fd.append("file", file);
+        fd.append("message", request.message);
+        fd.append("file", request.file);
         if (modelId) fd.append("model", modelId);
-        if (selectedTheme) fd.append("theme", selectedTheme);
+        if (request.theme) fd.append("theme", request.theme);
         if (templateId) fd.append("template", templateId);
         fd.append("thread", threadId);
-        res = await fetch("/api/messages", { method: "POST", body: fd });
+        fd.append("count", String(request.count));
+        if (request.aspectRatio) fd.append("aspect", request.aspectRatio);
+        if (request.video) fd.append("video", JSON.stringify(request.video));
+        if (request.fresh) fd.append("fresh", "1");
+        if (request.transparent) fd.append("transparent", "1");
+        if (request.enhancement) fd.append("enhancement", request.enhancement);
+        res = await fetch(`/api/messages?${projectQuery}stream=1`, { method: "POST", body: fd });
       } else {
-        res = await fetch("/api/messages", {
+        res = await fetch(`/api/messages?${projectQuery}stream=1`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ message, theme: selectedTheme, model: modelId, thread: threadId, template: templateId }),
+          body: JSON.stringify({
+            message: request.message,
+            theme: request.theme,
+            model: modelId,
+            thread: threadId,
+            template: templateId,
+            count: request.count,
+            aspect: request.aspectRatio,
+            video: request.video,
+            fresh: request.fresh || undefined,
+            transparent: request.transparent || undefined,
+            enhancement: request.enhancement,
+          }),
         });
       }
+      // Validation errors come back as plain JSON before any streaming starts
       if (!res.ok) {
         const j = await res.json().catch(() => ({}));
-        throw new Error(j?.error || `Request failed: ${res.status}`);
+        throw new RequestError(j?.error || `Request failed: ${res.status}`, j);
       }
       setMessage("");
+      setEnhancement(null);
       setFile(null);
       if (inputRef.current) inputRef.current.value = "";
-      await mutate(swrKey);
+      const done = await readEvents(res, (event) => {
+        const line = describeEvent(event);
+        if (!line) return;
+        // Video polling updates one line instead of adding a new one per check
+        setSteps((s) => (event.type === "polling" && s[s.length - 1]?.startsWith("Waiting for the video") ? [...s.slice(0, -1), line] : [...s, line]));
+        if (event.type === "saved" || event.type === "job") mutate(swrKey);
+      });
+      // Without a "done" event the connection dropped; a video job keeps running and shows up via jobsKey
+      if (done && done.status >= 400) throw new RequestError(done.body.error || `Request failed: ${done.status}`, done.body);
     } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : String(err);
-      alert(msg);
+      const info = err instanceof RequestError ? err.info : {};
+      if (info.retryAfter !== undefined) {
+        setCooldownUntil(Date.now() + info.retryAfter * 1000);
+        setNow(Date.now());
+      }
+      setError({
+        message: err instanceof Error ? err.message : String(err),
+        code: info.code,
+        retryable: info.retryable,
+        retryAfter: info.retryAfter,
+        details: info.details,
+        request,
+      });
     } finally {
       setPending(false);
+      setSteps([]);
+      await Promise.all([
+        mutate(swrKey),
+        mutate(versionsKey),
+        mutate(jobsKey),
+        mutate(RATE_LIMIT_KEY),
+        mutate((key) => typeof key === "string" && key.startsWith(USAGE_KEY_PREFIX)),
+      ]);
+    }
+  }
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!message.trim() && !file) return;
+    await send({
+      message,
+      file,
+      theme: selectedTheme,
+      count: candidateCount,
+      aspectRatio,
+      video: videoRequest,
+      fresh,
+      transparent: transparentRequest,
+      enhancement: enhancement?.id,
+    });
+  }
+
+  // Replace the prompt with a detailed brief for the selected template; the user can edit or undo it
+  async function enhance() {
+    if (!message.trim()) return;
+    setEnhancing(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/enhance", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, template: templateId, model: modelId }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new RequestError(j?.error || `Request failed: ${res.status}`, j);
+      setEnhancement({ id: j.id, original: j.original });
+      setMessage(j.enhanced);
+    } catch (err: unknown) {
+      const info = err instanceof RequestError ? err.info : {};
+      if (info.retryAfter !== undefined) {
+        setCooldownUntil(Date.now() + info.retryAfter * 1000);
+        setNow(Date.now());
+      }
+      setError({
+        message: err instanceof Error ? err.message : String(err),
+        code: info.code,
+        retryable: false,
+        retryAfter: info.retryAfter,
+        request: { message, file, theme: selectedTheme, count: candidateCount, aspectRatio, video: videoRequest, fresh, transparent: transparentRequest },
+      });
+    } finally {
+      setEnhancing(false);
+      mutate(RATE_LIMIT_KEY);
     }
   }
 
@@ -106,6 +608,37 @@ export default function Chat({ modelId, compact, threadId = "default", templateI
             <div className="bg-gray-50 rounded-lg p-4 text-center text-gray-600 transition-all duration-300">
               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto mb-1"></div>
               <div className="text-sm">Generating...</div>
+              {steps.length > 0 && (
+                <ol className="mt-2 text-left text-xs space-y-0.5">
+                  {steps.map((s, i) => (
+                    <li key={i} className={i === steps.length - 1 ? "font-medium text-gray-800" : "opacity-60"}>
+                      {i === steps.length - 1 ? "▸" : "✓"} {s}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          ) : activeJob ? (
+            <div className="bg-gray-50 rounded-lg p-4 text-center text-gray-600 transition-all duration-300">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto mb-1"></div>
+              <div className="text-sm">
+                {activeJob.status === "queued" ? "Video queued…" : "Generating video… this can take a few minutes"}
+              </div>
+              {activeJob.progress && activeJob.progress.total > 0 && (
+                <div className="mt-2 h-1.5 rounded-full bg-gray-200 overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all duration-500"
+                    style={{ width: `${Math.round((activeJob.progress.done / activeJob.progress.total) * 100)}%` }}
+                  />
+                </div>
+              )}
+              <button
+                type="button"
+                onClick={() => cancelJob(activeJob.id)}
+                className="mt-2 rounded border px-2 py-1 text-xs hover:bg-white"
+              >
+                Cancel
+              </button>
             </div>
           ) : latestImage ? (
             <div className="transition-all duration-500 ease-out">
@@ -120,9 +653,77 @@ export default function Chat({ modelId, compact, threadId = "default", templateI
                   alt="Generated Logo" 
                   width={1024} 
                   height={1024} 
+                  unoptimized // session-owned asset; the optimizer can't fetch it with the user's cookie
+                  style={CHECKERBOARD}
                   className="rounded-lg border w-full h-auto shadow-sm transition-all duration-500" 
                 />
               )}
+              {shownReply?.cached && (
+                <div className="mt-2 text-xs text-amber-700" title="Identical request answered from the generation cache; tick Fresh to call the model again">
+                  ⚡ From cache
+                </div>
+              )}
+              {shownReply?.text && <div className="mt-2 text-sm text-neutral-800 whitespace-pre-wrap">{shownReply.text}</div>}
+              {shownReply && <ResponseInfo details={shownReply.details} usage={shownReply.usage} />}
+              {currentVersion && latestImage.imageUrl && (
+                <>
+                  <div className="mt-2 flex items-center gap-2">
+                    <a
+                      href={`/api/assetpack?${versionQuery}`}
+                      download
+                      className="inline-block rounded border px-2 py-1 text-xs hover:bg-neutral-50"
+                      title="favicon.ico, PNG icons (16–1024 px), apple-touch-icon, Android adaptive icon, social images and manifest.json"
+                    >
+                      📦 Download asset pack
+                    </a>
+                    <button
+                      type="button"
+                      onClick={() => setShowVector((v) => !v)}
+                      className={`rounded border px-2 py-1 text-xs hover:bg-neutral-50 ${showVector ? "bg-neutral-100" : ""}`}
+                      title="Trace this version into an SVG with a limited palette"
+                    >
+                      ✒️ Vectorize
+                    </button>
+                  </div>
+                  {showVector && <VectorPreview key={currentVersion.id} query={versionQuery} imageUrl={currentVersion.imageUrl} />}
+                </>
+              )}
+              {candidates.length > 1 && (
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  {candidates.map((c, i) => {
+                    const isBase = c.versionId === versionsData?.current;
+                    return (
+                      <div
+                        key={c.versionId}
+                        className={`rounded-lg overflow-hidden border ${isBase ? "ring-2 ring-blue-500 border-blue-500" : ""}`}
+                      >
+                        <Image src={c.imageUrl} alt={`Candidate ${i + 1}`} width={256} height={256} unoptimized style={CHECKERBOARD} className="w-full h-auto" />
+                        <div className="flex items-center gap-1 p-1 bg-white">
+                          <button
+                            type="button"
+                            onClick={() => changeVersion("revert", c.versionId)}
+                            disabled={isBase}
+                            className="flex-1 rounded border px-2 py-1 text-xs hover:bg-neutral-50 disabled:opacity-60"
+                            title="Continue editing from this candidate"
+                          >
+                            {isBase ? "✓ Base" : "Use as base"}
+                          </button>
+                          {onFork && (
+                            <button
+                              type="button"
+                              onClick={() => onFork(c.versionId)}
+                              className="rounded border px-2 py-1 text-xs hover:bg-neutral-50"
+                              title="Fork this candidate into a new node"
+                            >
+                              ⑂ Fork
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
               {latestImage.videoUrl && (
                 <video 
                   src={latestImage.videoUrl} 
@@ -133,6 +734,44 @@ export default function Chat({ modelId, compact, threadId = "default", templateI
                   Your browser does not support the video tag.
                 </video>
               )}
+              {versions.length > 0 && (
+                <div className="mt-2 flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => changeVersion("undo")}
+                    disabled={currentIndex <= 0}
+                    className="rounded border px-2 py-1 text-xs hover:bg-neutral-50 disabled:opacity-40"
+                    title="Undo to previous version"
+                  >
+                    ↶ Undo
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => changeVersion("redo")}
+                    disabled={currentIndex < 0 || currentIndex >= versions.length - 1}
+                    className="rounded border px-2 py-1 text-xs hover:bg-neutral-50 disabled:opacity-40"
+                    title="Redo to next version"
+                  >
+                    ↷ Redo
+                  </button>
+                  <span className="text-xs opacity-60">
+                    v{currentIndex + 1}/{versions.length}
+                  </span>
+                  <div className="flex-1 flex gap-1 overflow-x-auto">
+                    {versions.map((v, i) => (
+                      <button
+                        key={v.id}
+                        type="button"
+                        onClick={() => changeVersion("revert", v.id)}
+                        className={`flex-shrink-0 rounded overflow-hidden border ${i === currentIndex ? "ring-2 ring-blue-500 border-blue-500" : "hover:border-foreground/40"}`}
+                        title={`v${i + 1}: ${v.prompt}`}
+                      >
+                        <Image src={v.imageUrl} alt={`Version ${i + 1}`} width={40} height={40} unoptimized className="w-10 h-10 object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           ) : (
             <div className="bg-gray-50 rounded-lg p-3 text-center text-gray-400 text-sm transition-all duration-300">
@@ -142,13 +781,116 @@ export default function Chat({ modelId, compact, threadId = "default", templateI
         </div>
       )}
 
+      {error && (
+        <div className="mb-2 rounded-lg border border-red-200 bg-red-50 p-2 text-xs text-red-800" role="alert">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 min-w-0">
+              {error.code && ERROR_HINTS[error.code] && <div className="font-medium">{ERROR_HINTS[error.code]}</div>}
+              {explainBlock(error.details) && <div>{explainBlock(error.details)}</div>}
+              {error.details?.text && !error.message.includes(error.details.text) && <div className="italic">Model said: “{error.details.text}”</div>}
+              <div className="break-words line-clamp-3 opacity-80" title={error.message}>
+                {error.message}
+              </div>
+              {cooldown > 0 && <div className="opacity-80">You can send again in {cooldown}s</div>}
+            </div>
+            <button type="button" onClick={() => setError(null)} className="opacity-60 hover:opacity-100" title="Dismiss">
+              ✕
+            </button>
+          </div>
+          {error.retryable !== false && (
+            <button
+              type="button"
+              onClick={() => send(error.request)}
+              disabled={pending || cooldown > 0}
+              className="mt-2 rounded border border-red-300 bg-white px-2 py-1 hover:bg-red-100 disabled:opacity-50"
+            >
+              ↻ Retry
+            </button>
+          )}
+        </div>
+      )}
+
       <form onSubmit={onSubmit} className="mt-auto grid gap-2 flex-shrink-0">
+        {enhancement && (
+          <div className="flex items-center gap-2 text-xs text-purple-800 bg-purple-50 border border-purple-200 rounded px-2 py-1">
+            <span className="flex-1 truncate" title={enhancement.original}>
+              ✨ Enhanced from “{enhancement.original}”. Edit the brief below before sending.
+            </span>
+            <button
+              type="button"
+              onClick={() => {
+                setMessage(enhancement.original);
+                setEnhancement(null);
+              }}
+              className="hover:underline"
+            >
+              Undo
+            </button>
+          </div>
+        )}
         <textarea
           className="w-full rounded-lg border p-2 min-h-[50px] text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-neutral-900 placeholder:text-neutral-400"
           placeholder="Type a prompt or edit instruction…"
           value={message}
           onChange={(e) => setMessage(e.target.value)}
         />
+        {videoCaps && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-neutral-900">
+            <select
+              value={videoOptions.aspectRatio ?? videoCaps.aspectRatios[0]}
+              onChange={(e) => setVideoOptions((o) => ({ ...o, aspectRatio: e.target.value as VideoOptions["aspectRatio"] }))}
+              className="rounded border px-2 py-1 bg-white"
+              title="Aspect ratio"
+            >
+              {videoCaps.aspectRatios.map((r) => (
+                <option key={r} value={r}>
+                  {r === "16:9" ? "16:9 landscape" : r === "9:16" ? "9:16 portrait" : r}
+                </option>
+              ))}
+            </select>
+            <select
+              value={videoOptions.durationSeconds ?? videoCaps.durations[videoCaps.durations.length - 1]}
+              onChange={(e) => setVideoOptions((o) => ({ ...o, durationSeconds: Number(e.target.value) }))}
+              className="rounded border px-2 py-1 bg-white"
+              title="Duration"
+            >
+              {videoCaps.durations.map((d) => (
+                <option key={d} value={d}>
+                  {d}s
+                </option>
+              ))}
+            </select>
+            <select
+              value={videoOptions.personGeneration ?? videoCaps.personGeneration[0]}
+              onChange={(e) => setVideoOptions((o) => ({ ...o, personGeneration: e.target.value as VideoOptions["personGeneration"] }))}
+              className="rounded border px-2 py-1 bg-white"
+              title="People in the video"
+            >
+              {videoCaps.personGeneration.map((p) => (
+                <option key={p} value={p}>
+                  {p === "allow_all" ? "People: any" : p === "allow_adult" ? "People: adults only" : "People: none"}
+                </option>
+              ))}
+            </select>
+            {videoCaps.audio && (
+              <label className="inline-flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={videoOptions.generateAudio ?? true}
+                  onChange={(e) => setVideoOptions((o) => ({ ...o, generateAudio: e.target.checked }))}
+                />
+                Audio
+              </label>
+            )}
+            <input
+              value={videoOptions.negativePrompt ?? ""}
+              onChange={(e) => setVideoOptions((o) => ({ ...o, negativePrompt: e.target.value }))}
+              placeholder="Avoid: blurry, low quality, distorted"
+              className="flex-1 min-w-[160px] rounded border px-2 py-1 bg-white placeholder:text-neutral-400"
+              title="Negative prompt"
+            />
+          </div>
+        )}
         <div className="flex items-center gap-2">
           <input
             type="file"
@@ -157,13 +899,64 @@ export default function Chat({ modelId, compact, threadId = "default", templateI
             onChange={(e) => setFile(e.target.files?.[0] || null)}
             className="hidden"
           />
+          {capabilities?.baseImage !== false && (
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              className="rounded-full bg-neutral-800 text-white px-3 py-2 text-sm shadow hover:bg-neutral-900"
+            >
+              Add inspiration
+            </button>
+          )}
+          {maxCandidates > 1 && (
+            <select
+              value={candidateCount}
+              onChange={(e) => setCount(Number(e.target.value))}
+              className="rounded-full border px-2 py-2 text-sm bg-white text-neutral-900"
+              title="Number of candidate images to generate"
+            >
+              {Array.from({ length: maxCandidates }, (_, i) => i + 1).map((n) => (
+                <option key={n} value={n}>
+                  ×{n}
+                </option>
+              ))}
+            </select>
+          )}
+          {aspectRatio && aspectRatios.length > 1 && (
+            <select
+              value={aspectRatio}
+              onChange={(e) => setAspect(e.target.value as AspectRatio)}
+              className="rounded-full border px-2 py-2 text-sm bg-white text-neutral-900"
+              title="Aspect ratio of the generated image"
+            >
+              {aspectRatios.map((r) => (
+                <option key={r} value={r}>
+                  {r} · {OUTPUT_SIZES[r].width}×{OUTPUT_SIZES[r].height}
+                </option>
+              ))}
+            </select>
+          )}
           <button
             type="button"
-            onClick={() => inputRef.current?.click()}
-            className="rounded-full bg-neutral-800 text-white px-3 py-2 text-sm shadow hover:bg-neutral-900"
+            onClick={enhance}
+            disabled={!message.trim() || enhancing || pending || cooldown > 0}
+            className="rounded-full border px-3 py-2 text-sm bg-white text-neutral-900 hover:bg-neutral-50 disabled:opacity-50"
+            title="Expand the prompt into a detailed brief for the selected template"
           >
-            Add inspiration
+            {enhancing ? "Enhancing…" : "✨ Enhance"}
           </button>
+          {capabilities?.kind !== "video" && (
+            <label className="inline-flex items-center gap-1 text-xs text-neutral-900" title="Remove the plain background of generated images (PNG with alpha)">
+              <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+              Transparent
+            </label>
+          )}
+          {cacheEnabled && capabilities?.kind !== "video" && (
+            <label className="inline-flex items-center gap-1 text-xs text-neutral-900" title="Skip the generation cache and call the model again">
+              <input type="checkbox" checked={fresh} onChange={(e) => setFresh(e.target.checked)} />
+              Fresh
+            </label>
+          )}
           {file && (
             <div className="text-xs opacity-80 flex items-center gap-2">
               <span className="truncate max-w-[200px]">{file.name}</span>
@@ -179,8 +972,16 @@ export default function Chat({ modelId, compact, threadId = "default", templateI
               </button>
             </div>
           )}
-                     <button type="submit" disabled={pending} className="rounded-full bg-blue-600 text-white px-4 py-2 text-sm shadow hover:bg-blue-700 disabled:opacity-50">
-             {pending ? "Generating…" : "Send"}
+          {quota?.limit != null && quota.remaining != null && (
+            <span
+              className={`ml-auto text-xs ${quota.remaining === 0 ? "text-red-600" : "text-neutral-500"}`}
+              title={`Generations left in this ${Math.round(quota.windowMs / 1000)}s window${quota.resetMs > 0 ? `; resets in ${Math.ceil(quota.resetMs / 1000)}s` : ""}`}
+            >
+              {quota.remaining}/{quota.limit} left
+            </span>
+          )}
+                     <button type="submit" disabled={pending || cooldown > 0} className="rounded-full bg-blue-600 text-white px-4 py-2 text-sm shadow hover:bg-blue-700 disabled:opacity-50">
+             {pending ? "Generating…" : cooldown > 0 ? `Wait ${cooldown}s` : "Send"}
            </button>
         </div>
       </form>
@@ -9,6 +9,7 @@ export type ModelOption = {
   provider: "OpenAI" | "Gemini" | "Other";
   icon: string; // public path to icon
   disabled?: boolean;
+  note?: string; // e.g. why the option is disabled
 };
 
 export default function ModelSelector({
@@ -73,7 +74,7 @@ export default function ModelSelector({
                 <Image src={o.icon} alt="provider" width={28} height={28} className="rounded-md object-contain" />
                 <div className="flex-1 truncate">
                   <div className="truncate">{o.label}</div>
-                  <div className="text-[11px] opacity-60">{o.provider}</div>
+                  <div className="text-[11px] opacity-60">{o.note ? `${o.provider} · ${o.note}` : o.provider}</div>
                 </div>
                 {o.id === value && (
                   <svg width="14" height="14" viewBox="0 0 20 20" aria-hidden>
@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+export type ProjectOption = {
+  id: string;
+  name: string;
+  threadCount: number;
+};
+
+export default function ProjectSelector({
+  value,
+  projects,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onImport,
+}: {
+  value: string;
+  projects: ProjectOption[];
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+}) {
+  const current = projects.find((p) => p.id === value);
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    function handle(e: MouseEvent) {
+      if (!ref.current) return;
+      if (!ref.current.contains(e.target as Node)) setOpen(false);
+    }
+    document.addEventListener("mousedown", handle);
+    return () => document.removeEventListener("mousedown", handle);
+  }, []);
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((s) => !s)}
+        className="inline-flex items-center gap-2 border rounded-lg px-3 py-2 bg-white text-sm shadow-sm hover:bg-neutral-50"
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        title="Switch project"
+      >
+        <span className="text-base">📁</span>
+        <span className="max-w-[220px] truncate font-medium">{current?.name || "Loading…"}</span>
+        <svg width="14" height="14" viewBox="0 0 20 20" aria-hidden className="opacity-60">
+          <path d="M5 7l5 5 5-5" fill="none" stroke="currentColor" strokeWidth="2" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-1 w-[320px] rounded-lg border bg-white shadow-lg z-50">
+          <ul role="listbox" className="max-h-80 overflow-auto py-1">
+            {projects.map((p) => (
+              <li key={p.id} role="option" aria-selected={p.id === value} className="flex items-center gap-1 px-1">
+                <button
+                  type="button"
+                  onClick={() => {
+                    onSwitch(p.id);
+                    setOpen(false);
+                  }}
+                  className={`flex-1 min-w-0 text-left px-2 py-2 rounded text-sm hover:bg-neutral-50 ${
+                    p.id === value ? "bg-blue-50 text-blue-900" : ""
+                  }`}
+                >
+                  <div className="truncate">{p.name}</div>
+                  <div className="text-[11px] opacity-60">
+                    {p.threadCount} {p.threadCount === 1 ? "thread" : "threads"}
+                  </div>
+                </button>
+                <button type="button" onClick={() => onRename(p.id)} className="text-xs px-2 py-1 rounded border hover:bg-neutral-50" title="Rename">
+                  ✎
+                </button>
+                <button type="button" onClick={() => onDuplicate(p.id)} className="text-xs px-2 py-1 rounded border hover:bg-neutral-50" title="Duplicate">
+                  ⧉
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(p.id)}
+                  disabled={projects.length <= 1}
+                  className="text-xs px-2 py-1 rounded border hover:bg-red-50 text-red-600 disabled:opacity-40"
+                  title="Delete"
+                >
+                  🗑
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="border-t p-1">
+            <button
+              type="button"
+              onClick={() => {
+                onCreate();
+                setOpen(false);
+              }}
+              className="w-full text-left px-2 py-2 rounded text-sm text-blue-600 hover:bg-blue-50"
+            >
+              + New project
+            </button>
+            <a
+              href={`/api/export?project=${encodeURIComponent(value)}`}
+              onClick={() => setOpen(false)}
+              className="block w-full text-left px-2 py-2 rounded text-sm hover:bg-neutral-50"
+            >
+              ⬇ Export current project
+            </a>
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              ref={fileRef}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = "";
+                setOpen(false);
+              }}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => fileRef.current?.click()}
+              className="w-full text-left px-2 py-2 rounded text-sm hover:bg-neutral-50"
+            >
+              ⬆ Import archive…
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
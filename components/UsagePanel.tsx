@@ -0,0 +1,112 @@
+"use client";
+
+import useSWR from "swr";
+import { useState } from "react";
+
+// Shape of GET /api/usage (see lib/usage.ts)
+type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  videoSeconds: number;
+  latencyMs: number;
+  cost: number;
+};
+type UsageSummary = UsageTotals & { byModel: Record<string, UsageTotals>; unpriced: string[] };
+type UsageResponse = { session: UsageSummary; project: UsageSummary; thread?: UsageSummary };
+
+// Chat revalidates every key starting with this after a generation
+export const USAGE_KEY_PREFIX = "/api/usage";
+
+const fetcher = (url: string) => fetch(url).then((r) => r.json());
+
+const formatCost = (usd: number) => (usd > 0 && usd < 0.01 ? "<$0.01" : `$${usd.toFixed(2)}`);
+const formatTokens = (n: number) => (n >= 10_000 ? `${(n / 1000).toFixed(0)}k` : n.toLocaleString());
+
+function Row({ label, totals }: { label: string; totals: UsageTotals }) {
+  return (
+    <tr>
+      <td className="pr-2 truncate max-w-[140px]" title={label}>
+        {label}
+      </td>
+      <td className="pr-2 text-right">{totals.calls}</td>
+      <td className="pr-2 text-right" title={`${totals.promptTokens} in / ${totals.outputTokens} out`}>
+        {formatTokens(totals.promptTokens + totals.outputTokens)}
+      </td>
+      <td className="pr-2 text-right">{totals.videoSeconds ? `${totals.videoSeconds}s` : "–"}</td>
+      <td className="text-right font-medium">{formatCost(totals.cost)}</td>
+    </tr>
+  );
+}
+
+// Calls, tokens, video seconds and estimated cost of the thread, project and session
+export default function UsagePanel({
+  projectId,
+  threadId,
+  modelLabels = {},
+}: {
+  projectId: string;
+  threadId?: string;
+  modelLabels?: Record<string, string>;
+}) {
+  const [open, setOpen] = useState(false);
+  const threadQuery = threadId ? `&thread=${encodeURIComponent(threadId)}` : "";
+  const { data } = useSWR<UsageResponse>(
+    `${USAGE_KEY_PREFIX}?project=${encodeURIComponent(projectId)}${threadQuery}`,
+    fetcher,
+    { refreshInterval: open ? 15000 : 0 }
+  );
+  const project = data?.project;
+  const unpriced = data?.session.unpriced ?? [];
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm border border-gray-200 rounded-lg shadow-sm text-xs text-gray-700">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className="w-full flex items-center gap-2 px-3 py-2 hover:bg-gray-50 rounded-lg"
+        title="Usage and estimated cost"
+      >
+        <span>💰</span>
+        <span className="font-medium">{project ? formatCost(project.cost) : "…"}</span>
+        <span className="opacity-60">this project</span>
+        <span className="ml-auto opacity-60">{open ? "▾" : "▸"}</span>
+      </button>
+      {open && data && (
+        <div className="px-3 pb-3">
+          <table className="w-full">
+            <thead className="opacity-60">
+              <tr>
+                <th className="text-left font-normal"></th>
+                <th className="text-right font-normal pr-2">Calls</th>
+                <th className="text-right font-normal pr-2">Tokens</th>
+                <th className="text-right font-normal pr-2">Video</th>
+                <th className="text-right font-normal">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.thread && <Row label="This chat" totals={data.thread} />}
+              <Row label="Project" totals={data.project} />
+              <Row label="Session" totals={data.session} />
+              {Object.entries(data.project.byModel).length > 0 && (
+                <tr>
+                  <td colSpan={5} className="pt-2 opacity-60">
+                    Project by model
+                  </td>
+                </tr>
+              )}
+              {Object.entries(data.project.byModel).map(([id, totals]) => (
+                <Row key={id} label={modelLabels[id] ?? id} totals={totals} />
+              ))}
+            </tbody>
+          </table>
+          {project && project.calls > 0 && (
+            <div className="mt-2 opacity-60">Avg. latency {(project.latencyMs / project.calls / 1000).toFixed(1)}s per call</div>
+          )}
+          {unpriced.length > 0 && <div className="mt-1 opacity-60">No price for {unpriced.join(", ")} (counted as $0)</div>}
+          <div className="mt-1 opacity-60">Estimates from list prices; set LC_PRICES to adjust.</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import { buildAssetPack } from "@/lib/assetpack";
+import { readZip } from "@/lib/zip";
+
+const logo = (background: string) =>
+  sharp(
+    Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="1344" height="768"><rect width="100%" height="100%" fill="${background}"/><circle cx="672" cy="384" r="340" fill="#ff0000"/></svg>`
+    )
+  )
+    .png()
+    .toBuffer();
+
+async function corner(png: Buffer): Promise<number[]> {
+  const data = await sharp(png).ensureAlpha().raw().toBuffer();
+  return [...data.subarray(0, 4)];
+}
+
+test("opaque files and manifest colors use the logo's border color", async () => {
+  const files = readZip(await buildAssetPack(await logo("#fafafa"), "Test"));
+  const manifest = JSON.parse(files.get("manifest.json")!.toString());
+  assert.equal(manifest.theme_color, "#fafafa");
+  assert.equal(manifest.background_color, "#fafafa");
+  for (const name of ["apple-touch-icon.png", "android/mipmap-xxxhdpi/ic_launcher_background.png", "social/og-image.png", "social/avatar-400x400.png"]) {
+    assert.deepEqual(await corner(files.get(name)!), [250, 250, 250, 255], name);
+  }
+});
+
+test("logos with a transparent background get white opaque files", async () => {
+  const files = readZip(await buildAssetPack(await logo("none"), "Test"));
+  assert.equal(JSON.parse(files.get("manifest.json")!.toString()).theme_color, "#ffffff");
+  assert.deepEqual(await corner(files.get("apple-touch-icon.png")!), [255, 255, 255, 255]);
+  // Plain icons keep the transparency
+  assert.equal((await corner(files.get("icons/icon-512x512.png")!))[3], 0);
+});
+
+test("Android adaptive icon layers come in every density", async () => {
+  const files = readZip(await buildAssetPack(await logo("#fafafa"), "Test"));
+  for (const [density, size] of Object.entries({ mdpi: 108, hdpi: 162, xhdpi: 216, xxhdpi: 324, xxxhdpi: 432 })) {
+    for (const layer of ["foreground", "background"]) {
+      const meta = await sharp(files.get(`android/mipmap-${density}/ic_launcher_${layer}.png`)!).metadata();
+      assert.equal(meta.width, size, `${density} ${layer}`);
+      assert.equal(meta.height, size, `${density} ${layer}`);
+    }
+  }
+});
@@ -0,0 +1,101 @@
+import sharp from "sharp";
+import { edgeColor, normalizeImage, squareIcon, toIco, type Rgba, type Size } from "@/lib/image";
+import { createZip, type ZipEntry } from "@/lib/zip";
+
+// Deliverables for a finished logo, derived from one image: favicon.ico, square PNGs, the
+// apple-touch-icon, Android adaptive icon layers, social crops and a web manifest, in one zip.
+// The source may have any aspect ratio; icons fit it inside the square and pad the rest.
+
+const PNG_SIZES = [16, 32, 48, 64, 96, 128, 192, 256, 384, 512, 1024];
+const FAVICON_SIZES = [16, 32, 48];
+const APPLE_TOUCH_SIZE = 180;
+// Adaptive icon layers are 108dp (in px per density bucket); launchers mask all but the central 66dp circle.
+const ANDROID_LAYER_SIZES: Record<string, number> = { mdpi: 108, hdpi: 162, xhdpi: 216, xxhdpi: 324, xxxhdpi: 432 };
+const ANDROID_SAFE_INSET = (1 - 66 / 108) / 2;
+// Maskable web icons keep their content inside the central 80%
+const MASKABLE_INSET = 0.1;
+const SOCIAL_SIZES: Record<string, Size> = {
+  "og-image": { width: 1200, height: 630 }, // Open Graph (Facebook, LinkedIn, Slack)
+  "twitter-card": { width: 1200, height: 600 }, // summary_large_image
+};
+const AVATAR_SIZE = 400;
+
+const ADAPTIVE_ICON_XML = `<?xml version="1.0" encoding="utf-8"?>
+<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">
+    <background android:drawable="@mipmap/ic_launcher_background" />
+    <foreground android:drawable="@mipmap/ic_launcher_foreground" />
+</adaptive-icon>
+`;
+
+const WHITE: Rgba = { r: 255, g: 255, b: 255, alpha: 1 };
+
+const hex = (c: Rgba) => `#${[c.r, c.g, c.b].map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+
+// Opaque image with a margin of the background color, for wide social crops
+async function withMargin(input: Buffer, margin: number, background: Rgba): Promise<Buffer> {
+  const { width = 1024, height = 1024 } = await sharp(input, { limitInputPixels: false }).metadata();
+  const px = Math.round(Math.max(width, height) * margin);
+  return sharp(input, { limitInputPixels: false })
+    .flatten({ background })
+    .extend({ top: px, bottom: px, left: px, right: px, background })
+    .png()
+    .toBuffer();
+}
+
+export async function buildAssetPack(source: Buffer, name: string): Promise<Buffer> {
+  const { width = 1024, height = 1024 } = await sharp(source, { limitInputPixels: false }).metadata();
+  // Opaque variants (apple-touch, Android background, social) use the logo's own background color,
+  // white when the border is mostly transparent
+  const edge = await edgeColor(source, width, height);
+  const background = edge.alpha < 0.5 ? WHITE : { ...edge, alpha: 1 };
+  const entries: ZipEntry[] = [];
+
+  const pngs = new Map<number, Buffer>();
+  for (const size of PNG_SIZES) {
+    const data = await squareIcon(source, size);
+    pngs.set(size, data);
+    entries.push({ name: `icons/icon-${size}x${size}.png`, data });
+  }
+  entries.push({ name: "favicon.ico", data: toIco(FAVICON_SIZES.map((size) => ({ size, data: pngs.get(size)! }))) });
+  entries.push({ name: "apple-touch-icon.png", data: await squareIcon(source, APPLE_TOUCH_SIZE, { background }) });
+  entries.push({ name: "icons/maskable-512x512.png", data: await squareIcon(source, 512, { inset: MASKABLE_INSET, background }) });
+
+  for (const [density, size] of Object.entries(ANDROID_LAYER_SIZES)) {
+    entries.push(
+      {
+        name: `android/mipmap-${density}/ic_launcher_foreground.png`,
+        data: await squareIcon(source, size, { inset: ANDROID_SAFE_INSET }),
+      },
+      {
+        name: `android/mipmap-${density}/ic_launcher_background.png`,
+        data: await sharp({ create: { width: size, height: size, channels: 4, background } }).png().toBuffer(),
+      }
+    );
+  }
+  entries.push({ name: "android/mipmap-anydpi-v26/ic_launcher.xml", data: Buffer.from(ADAPTIVE_ICON_XML) });
+
+  const framed = await withMargin(source, 0.12, background);
+  for (const [file, size] of Object.entries(SOCIAL_SIZES)) {
+    entries.push({ name: `social/${file}.png`, data: await normalizeImage(framed, size) });
+  }
+  entries.push({
+    name: `social/avatar-${AVATAR_SIZE}x${AVATAR_SIZE}.png`,
+    data: await squareIcon(source, AVATAR_SIZE, { inset: 0.08, background }),
+  });
+
+  const manifest = {
+    name,
+    short_name: name.length > 12 ? name.slice(0, 12).trim() : name,
+    icons: [
+      { src: "icons/icon-192x192.png", sizes: "192x192", type: "image/png" },
+      { src: "icons/icon-512x512.png", sizes: "512x512", type: "image/png" },
+      { src: "icons/maskable-512x512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+    theme_color: hex(background),
+    background_color: hex(background),
+    display: "standalone",
+  };
+  entries.push({ name: "manifest.json", data: Buffer.from(JSON.stringify(manifest, null, 2)) });
+
+  return createZip(entries);
+}
@@ -0,0 +1,193 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomBytes } from "node:crypto";
+import { DATA_DIR, safeSegment } from "@/lib/storage";
+
+// Generated images and videos live outside public/ and are served by /api/assets/[id].
+// Layout: <DATA_DIR>/assets/<session>/<id> plus <id>.json metadata. An asset can only be
+// found through the session that created it, which is what the route relies on for access control.
+const ASSETS_DIR = path.join(DATA_DIR, "assets");
+const PUBLIC_OUTPUTS_DIR = path.join(process.cwd(), "public", "outputs");
+
+export type AssetMeta = {
+  id: string;
+  projectId: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+};
+
+const ASSET_ID = /^[a-f0-9]{32}$/;
+const URL_PREFIX = "/api/assets/";
+
+function sessionDir(sessionId: string) {
+  return path.join(ASSETS_DIR, safeSegment(sessionId));
+}
+
+export function assetUrl(id: string): string {
+  return `${URL_PREFIX}${id}`;
+}
+
+export function assetIdFromUrl(url: string): string | null {
+  if (!url.startsWith(URL_PREFIX)) return null;
+  const id = url.slice(URL_PREFIX.length).split(/[?#]/)[0];
+  return ASSET_ID.test(id) ? id : null;
+}
+
+export async function saveAsset(sessionId: string, projectId: string, data: Buffer, mimeType: string): Promise<AssetMeta> {
+  const dir = sessionDir(sessionId);
+  await fs.promises.mkdir(dir, { recursive: true });
+  const meta: AssetMeta = {
+    id: randomBytes(16).toString("hex"),
+    projectId,
+    mimeType,
+    size: data.length,
+    createdAt: Date.now(),
+  };
+  await fs.promises.writeFile(path.join(dir, meta.id), data);
+  await fs.promises.writeFile(path.join(dir, `${meta.id}.json`), JSON.stringify(meta));
+  return meta;
+}
+
+// Metadata and on-disk path of an asset owned by this session, or null
+export async function getAsset(sessionId: string, id: string): Promise<{ meta: AssetMeta; file: string } | null> {
+  if (!ASSET_ID.test(id)) return null;
+  const dir = sessionDir(sessionId);
+  try {
+    const meta: AssetMeta = JSON.parse(await fs.promises.readFile(path.join(dir, `${id}.json`), "utf8"));
+    return { meta, file: path.join(dir, id) };
+  } catch {
+    return null;
+  }
+}
+
+const LEGACY_MIME_TYPES: Record<string, string> = { ".png": "image/png", ".mp4": "video/mp4" };
+
+// Load the bytes behind an image/video URL stored on a message or version.
+// Also accepts /outputs/... URLs written to public/ before assets existed.
+export async function loadAsset(sessionId: string, url: string): Promise<{ data: Buffer; mimeType: string }> {
+  const id = assetIdFromUrl(url);
+  if (id) {
+    const asset = await getAsset(sessionId, id);
+    if (!asset) throw new Error(`Asset not found: ${url}`);
+    return { data: await fs.promises.readFile(asset.file), mimeType: asset.meta.mimeType };
+  }
+  const file = path.join(process.cwd(), "public", path.normalize(url).replace(/^([/\\])+/, ""));
+  if (!file.startsWith(PUBLIC_OUTPUTS_DIR + path.sep)) {
+    throw new Error(`Not an asset URL: ${url}`);
+  }
+  const mimeType = LEGACY_MIME_TYPES[path.extname(file).toLowerCase()] || "application/octet-stream";
+  return { data: await fs.promises.readFile(file), mimeType };
+}
+
+export async function readAsset(sessionId: string, url: string): Promise<Buffer> {
+  return (await loadAsset(sessionId, url)).data;
+}
+
+async function listAssets(sessionId: string): Promise<AssetMeta[]> {
+  const dir = sessionDir(sessionId);
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(dir);
+  } catch {
+    return [];
+  }
+  const metas: AssetMeta[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) continue;
+    try {
+      metas.push(JSON.parse(await fs.promises.readFile(path.join(dir, name), "utf8")));
+    } catch {}
+  }
+  return metas;
+}
+
+// Give a duplicated project its own copies; returns old URL -> new URL
+export async function copyProjectAssets(sessionId: string, fromProject: string, toProject: string): Promise<Map<string, string>> {
+  const mapping = new Map<string, string>();
+  for (const meta of await listAssets(sessionId)) {
+    if (meta.projectId !== fromProject) continue;
+    const data = await fs.promises.readFile(path.join(sessionDir(sessionId), meta.id));
+    const copy = await saveAsset(sessionId, toProject, data, meta.mimeType);
+    mapping.set(assetUrl(meta.id), assetUrl(copy.id));
+  }
+  return mapping;
+}
+
+// Files written to public/outputs/<sid> before assets existed, as [url, path, stat]
+async function listLegacyOutputs(sessionId: string): Promise<[string, string, fs.Stats][]> {
+  const out: [string, string, fs.Stats][] = [];
+  const root = path.join(PUBLIC_OUTPUTS_DIR, path.basename(sessionId));
+  async function walk(dir: string) {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const e of entries) {
+      const file = path.join(dir, e.name);
+      if (e.isDirectory()) await walk(file);
+      else if (e.isFile()) {
+        const url = "/outputs/" + path.relative(PUBLIC_OUTPUTS_DIR, file).split(path.sep).join("/");
+        out.push([url, file, await fs.promises.stat(file)]);
+      }
+    }
+  }
+  await walk(root);
+  return out;
+}
+
+export async function deleteAsset(sessionId: string, id: string) {
+  if (!ASSET_ID.test(id)) return;
+  const dir = sessionDir(sessionId);
+  await fs.promises.rm(path.join(dir, id), { force: true });
+  await fs.promises.rm(path.join(dir, `${id}.json`), { force: true });
+}
+
+// Remove every asset saved for a project (e.g. after a failed import)
+export async function deleteProjectAssets(sessionId: string, projectId: string) {
+  for (const meta of await listAssets(sessionId)) {
+    if (meta.projectId === projectId) await deleteAsset(sessionId, meta.id);
+  }
+}
+
+// Bytes on disk for this session's assets, including legacy public/outputs files
+export async function getSessionUsage(sessionId: string): Promise<number> {
+  let total = 0;
+  for (const meta of await listAssets(sessionId)) total += meta.size;
+  for (const [, , stat] of await listLegacyOutputs(sessionId)) total += stat.size;
+  return total;
+}
+
+// Delete assets whose URL is not in `referenced`. Anything younger than `graceMs` is kept:
+// a request may have saved it and not yet attached it to a message.
+export async function deleteUnreferencedAssets(
+  sessionId: string,
+  referenced: Set<string>,
+  graceMs: number
+): Promise<{ removed: number; freed: number }> {
+  const cutoff = Date.now() - graceMs;
+  const dir = sessionDir(sessionId);
+  let removed = 0;
+  let freed = 0;
+  for (const meta of await listAssets(sessionId)) {
+    if (meta.createdAt > cutoff || referenced.has(assetUrl(meta.id))) continue;
+    await fs.promises.rm(path.join(dir, meta.id), { force: true });
+    await fs.promises.rm(path.join(dir, `${meta.id}.json`), { force: true });
+    removed++;
+    freed += meta.size;
+  }
+  for (const [url, file, stat] of await listLegacyOutputs(sessionId)) {
+    if (stat.mtimeMs > cutoff || referenced.has(url)) continue;
+    await fs.promises.rm(file, { force: true });
+    removed++;
+    freed += stat.size;
+  }
+  return { removed, freed };
+}
+
+export async function deleteSessionAssets(sessionId: string) {
+  await fs.promises.rm(sessionDir(sessionId), { recursive: true, force: true });
+  await fs.promises.rm(path.join(PUBLIC_OUTPUTS_DIR, path.basename(sessionId)), { recursive: true, force: true });
+}
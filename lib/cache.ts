@@ -0,0 +1,93 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { DATA_DIR } from "@/lib/storage";
+import type { HistoryTurn, ResponseDetails } from "@/lib/gemini";
+
+// Opt-in cache of generated images keyed by everything that goes into the request, so replaying
+// a cloned branch doesn't pay for the same image twice. Shared by all sessions: a hit is copied
+// into the requesting session's assets. Layout: <DATA_DIR>/cache/<sha256>.png plus <sha256>.json.
+// Entries are evicted least recently used first (file mtime is bumped on every hit).
+export const CACHE_ENABLED = process.env.LC_CACHE === "1" || process.env.LC_CACHE === "true";
+const CACHE_MAX_BYTES = Math.max(0, Number(process.env.LC_CACHE_MAX_MB ?? 256) || 0) * 1024 * 1024;
+const CACHE_DIR = path.join(DATA_DIR, "cache");
+const KEY = /^[a-f0-9]{64}$/;
+
+export type CacheKeyParts = {
+  model: string;
+  systemPrompt: string;
+  prompt: string;
+  baseImage?: Buffer | null;
+  history?: HistoryTurn[];
+  size?: { width: number; height: number };
+  variant: number; // candidates of one prompt must stay distinct
+};
+
+type CacheMeta = {
+  mimeType: string;
+  details: Omit<ResponseDetails, "usage">;
+  createdAt: number;
+};
+
+const sha256 = (data: Buffer | string) => createHash("sha256").update(data).digest("hex");
+
+export function cacheKey(parts: CacheKeyParts): string {
+  return sha256(
+    JSON.stringify({
+      model: parts.model,
+      system: parts.systemPrompt,
+      prompt: parts.prompt,
+      base: parts.baseImage ? sha256(parts.baseImage) : null,
+      // Earlier turns shape the output too, so a replayed branch only hits with the same history
+      history: (parts.history ?? []).map((t) => [t.role, t.text ?? "", t.image ? sha256(t.image.data) : null]),
+      size: parts.size ?? null,
+      variant: parts.variant,
+    })
+  );
+}
+
+export async function readCache(key: string): Promise<{ data: Buffer; mimeType: string; details: CacheMeta["details"] } | null> {
+  if (!CACHE_ENABLED || !KEY.test(key)) return null;
+  const file = path.join(CACHE_DIR, `${key}.png`);
+  try {
+    const meta: CacheMeta = JSON.parse(await fs.promises.readFile(path.join(CACHE_DIR, `${key}.json`), "utf8"));
+    const data = await fs.promises.readFile(file);
+    const now = new Date();
+    await fs.promises.utimes(file, now, now).catch(() => {});
+    return { data, mimeType: meta.mimeType, details: meta.details };
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCache(key: string, data: Buffer, mimeType: string, details: CacheMeta["details"]) {
+  if (!CACHE_ENABLED || !KEY.test(key)) return;
+  await fs.promises.mkdir(CACHE_DIR, { recursive: true });
+  const meta: CacheMeta = { mimeType, details, createdAt: Date.now() };
+  await fs.promises.writeFile(path.join(CACHE_DIR, `${key}.png`), data);
+  await fs.promises.writeFile(path.join(CACHE_DIR, `${key}.json`), JSON.stringify(meta));
+  await enforceCacheLimit();
+}
+
+// Drop least recently used entries until the cache fits LC_CACHE_MAX_MB
+async function enforceCacheLimit() {
+  const names = await fs.promises.readdir(CACHE_DIR).catch(() => [] as string[]);
+  const entries: { key: string; size: number; usedAt: number }[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".png")) continue;
+    const stat = await fs.promises.stat(path.join(CACHE_DIR, name)).catch(() => null);
+    if (stat) entries.push({ key: name.slice(0, -4), size: stat.size, usedAt: stat.mtimeMs });
+  }
+  let total = entries.reduce((n, e) => n + e.size, 0);
+  if (total <= CACHE_MAX_BYTES) return;
+  entries.sort((a, b) => a.usedAt - b.usedAt);
+  let removed = 0;
+  for (const e of entries) {
+    if (total <= CACHE_MAX_BYTES) break;
+    await fs.promises.rm(path.join(CACHE_DIR, `${e.key}.png`), { force: true });
+    await fs.promises.rm(path.join(CACHE_DIR, `${e.key}.json`), { force: true });
+    total -= e.size;
+    removed++;
+  }
+  console.log(`🧹 Evicted ${removed} generation cache entries (now ${(total / 1024 / 1024).toFixed(1)} MB)`);
+}
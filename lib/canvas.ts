@@ -0,0 +1,43 @@
+import type { CanvasNode, CanvasState } from "@/lib/store";
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+// Keep only well-formed nodes/edges so a bad client can't poison the stored graph
+export function parseCanvas(body: unknown): CanvasState | null {
+  if (typeof body !== "object" || body === null) return null;
+  const b = body as Record<string, unknown>;
+  if (!Array.isArray(b.nodes) || !Array.isArray(b.edges)) return null;
+
+  const nodes: CanvasNode[] = [];
+  for (const n of b.nodes) {
+    if (typeof n !== "object" || n === null) continue;
+    const { id, name, pos, size } = n as Record<string, unknown>;
+    if (typeof id !== "string" || !id) continue;
+    const p = pos as Record<string, unknown> | undefined;
+    if (!p || !isFiniteNumber(p.x) || !isFiniteNumber(p.y)) continue;
+    const node: CanvasNode = {
+      id,
+      name: typeof name === "string" && name.trim() ? name.trim().slice(0, 100) : id,
+      pos: { x: p.x, y: p.y },
+    };
+    const sz = size as Record<string, unknown> | undefined;
+    if (sz && isFiniteNumber(sz.width) && isFiniteNumber(sz.height)) {
+      node.size = { width: sz.width, height: sz.height };
+    }
+    nodes.push(node);
+  }
+
+  const ids = new Set(nodes.map((n) => n.id));
+  const edges = b.edges
+    .filter((e): e is { from: string; to: string } => {
+      if (typeof e !== "object" || e === null) return false;
+      const { from, to } = e as Record<string, unknown>;
+      return typeof from === "string" && typeof to === "string" && ids.has(from) && ids.has(to);
+    })
+    .map(({ from, to }) => ({ from, to }));
+
+  const active = typeof b.active === "string" && ids.has(b.active) ? b.active : nodes[0]?.id;
+  return { nodes, edges, active, updatedAt: Date.now() };
+}
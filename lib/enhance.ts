@@ -0,0 +1,85 @@
+import { GEMINI_TEXT_MODEL, PROMPT_TEMPLATES, generateText, getSystemPrompt } from "@/lib/gemini";
+import { withRetry } from "@/lib/errors";
+import { usageOfCall, type CallUsage } from "@/lib/usage";
+
+// Optional pre-step that expands a short prompt ("coffee logo") into a detailed design brief
+// written for the selected template. The brief is only a suggestion: the user can edit it before
+// sending. Each enhancement is remembered for a while so the message that uses it can record the
+// original prompt and the enhancer's usage without trusting the client for either.
+
+export type Enhancement = {
+  id: string;
+  original: string;
+  enhanced: string;
+  usage?: CallUsage;
+};
+
+const MAX_BRIEF_WORDS = 120;
+// Enhancements not sent within this time are forgotten
+const ENHANCEMENT_TTL_MS = 60 * 60 * 1000;
+
+type PendingEnhancement = Enhancement & { sessionId: string; createdAt: number; used?: boolean };
+
+// Shared across route bundles, like the job registry
+const pending: Map<string, PendingEnhancement> = ((globalThis as { __logoChatEnhancements?: Map<string, PendingEnhancement> })
+  .__logoChatEnhancements ??= new Map());
+
+function enhancerInstructions(modelId?: string, templateId?: string): string {
+  return `You turn short image requests into a detailed design brief for an image model.
+The image model follows these instructions:
+"""
+${getSystemPrompt(modelId, templateId)}
+"""
+Rewrite the user's request as a brief for that model. Keep the user's intent and subject, and keep any
+names or text that must appear in the image verbatim. Describe subject, style, composition, color palette,
+typography (if there is text) and background. Do not ask questions and do not add a preamble.
+Answer with the brief only, at most ${MAX_BRIEF_WORDS} words.`;
+}
+
+// LC_PROVIDER=mock: a deterministic brief built from the template, no API call
+function mockBrief(prompt: string, templateId?: string): string {
+  const template = PROMPT_TEMPLATES[templateId as keyof typeof PROMPT_TEMPLATES] ?? PROMPT_TEMPLATES.logo;
+  return `${template.name} of ${prompt.trim()}: centered composition, a limited palette of two or three colors, clean plain background, crisp edges and balanced negative space.`;
+}
+
+export async function enhancePrompt(
+  sessionId: string,
+  params: { prompt: string; modelId?: string; templateId?: string }
+): Promise<Enhancement> {
+  let enhanced: string;
+  let usage: CallUsage | undefined;
+  if (process.env.LC_PROVIDER === "mock") {
+    enhanced = mockBrief(params.prompt, params.templateId);
+  } else {
+    const started = Date.now();
+    const result = await withRetry(
+      () => generateText({ system: enhancerInstructions(params.modelId, params.templateId), prompt: params.prompt }),
+      { label: "Prompt enhancement" }
+    );
+    enhanced = result.text;
+    usage = usageOfCall(GEMINI_TEXT_MODEL, result.usage, Date.now() - started);
+  }
+
+  const now = Date.now();
+  for (const [id, e] of pending) {
+    if (now - e.createdAt > ENHANCEMENT_TTL_MS) pending.delete(id);
+  }
+  const enhancement: Enhancement = {
+    id: `enh-${now}-${Math.floor(Math.random() * 1e6)}`,
+    original: params.prompt,
+    enhanced,
+    usage,
+  };
+  pending.set(enhancement.id, { ...enhancement, sessionId, createdAt: now });
+  return enhancement;
+}
+
+// The enhancement a message was sent with, for its own session only. A re-sent message (Retry)
+// may use it again; only the first use carries the enhancer's usage so it is counted once.
+export function takeEnhancement(sessionId: string, id: string): Enhancement | undefined {
+  const entry = pending.get(id);
+  if (!entry || entry.sessionId !== sessionId) return undefined;
+  const { original, enhanced, usage, used } = entry;
+  entry.used = true;
+  return { id, original, enhanced, usage: used ? undefined : usage };
+}
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getEventListeners } from "node:events";
+import { GenerationError, withRetry } from "@/lib/errors";
+
+test("retry waits don't leave abort listeners on the caller's signal", async () => {
+  const controller = new AbortController();
+  const result = await withRetry(
+    async (attempt) => {
+      if (attempt < 3) throw new GenerationError("upstream", "busy");
+      return "ok";
+    },
+    { retries: 3, baseDelayMs: 1, maxDelayMs: 5, signal: controller.signal, label: "test" }
+  );
+  assert.equal(result, "ok");
+  assert.equal(getEventListeners(controller.signal, "abort").length, 0);
+});
+
+test("aborting during a retry wait rejects with the signal's reason", async () => {
+  const controller = new AbortController();
+  const pending = withRetry(
+    async () => {
+      throw new GenerationError("rate_limited", "busy", { retryAfterMs: 60_000 });
+    },
+    { retries: 1, maxDelayMs: 60_000, signal: controller.signal, label: "test" }
+  );
+  setImmediate(() => controller.abort(new Error("stopped")));
+  await assert.rejects(pending, /stopped/);
+});
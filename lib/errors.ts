@@ -0,0 +1,149 @@
+// Typed failures of upstream generation calls. The code decides the HTTP status the route answers
+// with and whether withRetry tries again.
+
+import type { ResponseDetails } from "@/lib/gemini";
+
+export type GenerationErrorCode =
+  | "rate_limited" // too many requests right now; retry after a delay
+  | "quota_exhausted" // plan/billing quota used up; retrying won't help
+  | "safety_blocked" // prompt or output blocked by the provider's safety filters
+  | "invalid_key" // API key missing, invalid or not allowed to use the model
+  | "timeout" // upstream didn't answer in time
+  | "no_image" // upstream answered without an image
+  | "bad_request" // upstream rejected the request (e.g. unsupported input)
+  | "upstream"; // upstream server error
+
+// Per-request timeout for upstream image calls (video operations are polled separately)
+export const UPSTREAM_TIMEOUT_MS = Math.max(1000, Number(process.env.LC_UPSTREAM_TIMEOUT_MS ?? 120_000) || 120_000);
+
+const HTTP_STATUS: Record<GenerationErrorCode, number> = {
+  rate_limited: 429,
+  quota_exhausted: 429,
+  safety_blocked: 422,
+  invalid_key: 502,
+  timeout: 504,
+  no_image: 502,
+  bad_request: 400,
+  upstream: 502,
+};
+
+const RETRYABLE: Record<GenerationErrorCode, boolean> = {
+  rate_limited: true,
+  quota_exhausted: false,
+  safety_blocked: false,
+  invalid_key: false,
+  timeout: true,
+  no_image: true,
+  bad_request: false,
+  upstream: true,
+};
+
+export class GenerationError extends Error {
+  readonly code: GenerationErrorCode;
+  readonly httpStatus: number;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number; // provider-suggested delay before retrying
+  readonly upstreamStatus?: number;
+  readonly details?: ResponseDetails; // what the model answered instead of an image (text, finish reason, ratings)
+
+  constructor(
+    code: GenerationErrorCode,
+    message: string,
+    opts: { retryable?: boolean; retryAfterMs?: number; upstreamStatus?: number; details?: ResponseDetails; cause?: unknown } = {}
+  ) {
+    super(message, { cause: opts.cause });
+    this.name = "GenerationError";
+    this.code = code;
+    this.httpStatus = HTTP_STATUS[code];
+    this.retryable = opts.retryable ?? RETRYABLE[code];
+    this.retryAfterMs = opts.retryAfterMs;
+    this.upstreamStatus = opts.upstreamStatus;
+    this.details = opts.details;
+  }
+}
+
+// "Retry-After: 12" or Gemini's `"retryDelay": "12s"` inside the error details
+function parseRetryAfter(headers: Headers, text: string): number | undefined {
+  const header = headers.get("retry-after");
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const m = text.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return m ? Number(m[1]) * 1000 : undefined;
+}
+
+// Classify a non-2xx upstream response. `provider` prefixes the message ("Gemini API error 429: ...").
+export async function errorFromResponse(provider: string, res: Response): Promise<GenerationError> {
+  const text = await res.text().catch(() => "");
+  const message = `${provider} API error ${res.status}: ${text}`;
+  const opts = { upstreamStatus: res.status, retryAfterMs: parseRetryAfter(res.headers, text) };
+
+  if (res.status === 401 || res.status === 403 || /API_KEY_INVALID|API key not valid|invalid_api_key/i.test(text)) {
+    return new GenerationError("invalid_key", message, opts);
+  }
+  if (res.status === 429) {
+    // Both providers use 429 for rate and quota limits; only billing/daily quotas are final
+    const exhausted = /insufficient_quota|billing|PerDay|per day/i.test(text);
+    return new GenerationError(exhausted ? "quota_exhausted" : "rate_limited", message, opts);
+  }
+  if (res.status === 408 || res.status === 504) return new GenerationError("timeout", message, opts);
+  if (res.status >= 500) return new GenerationError("upstream", message, opts);
+  if (/safety|content_policy|moderation/i.test(text)) return new GenerationError("safety_blocked", message, opts);
+  return new GenerationError("bad_request", message, opts);
+}
+
+// fetch errors: aborts from AbortSignal.timeout become "timeout", network failures "upstream".
+// Aborts requested by the caller (cancel) are passed through unchanged.
+export function errorFromFetch(provider: string, e: unknown, signal?: AbortSignal): unknown {
+  if (e instanceof GenerationError || signal?.aborted) return e;
+  if (e instanceof Error && e.name === "TimeoutError") {
+    return new GenerationError("timeout", `${provider} did not respond in time`, { cause: e });
+  }
+  const msg = e instanceof Error ? e.message : String(e);
+  return new GenerationError("upstream", `${provider} request failed: ${msg}`, { cause: e });
+}
+
+export type RetryOptions = {
+  retries?: number; // attempts after the first one
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  label?: string; // for logs
+  onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
+};
+
+const RETRIES = Math.max(0, Number(process.env.LC_UPSTREAM_RETRIES ?? 2) || 0);
+
+// Run `fn`, retrying retryable GenerationErrors with exponential backoff and full jitter.
+// A provider's Retry-After is respected as the minimum delay; if it exceeds maxDelayMs the
+// error is thrown instead, so the caller can pass the wait on to the user.
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, opts: RetryOptions = {}): Promise<T> {
+  const { retries = RETRIES, baseDelayMs = 1000, maxDelayMs = 30_000, signal, label = "upstream call", onRetry } = opts;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (e: unknown) {
+      if (!(e instanceof GenerationError) || !e.retryable || attempt >= retries || signal?.aborted) throw e;
+      if ((e.retryAfterMs ?? 0) > maxDelayMs) throw e;
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delay = Math.max(backoff, e.retryAfterMs ?? 0);
+      console.warn(`🔁 ${label} failed (${e.code}), retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+      onRetry?.(e, attempt + 1, delay);
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(signal?.reason);
+        };
+        // Long-lived signals see many waits, so drop the listener once this one is over
+        const timer = setTimeout(() => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        }, delay);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+  }
+}
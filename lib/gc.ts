@@ -0,0 +1,43 @@
+import { deleteSessionAssets, deleteUnreferencedAssets, getSessionUsage } from "@/lib/assets";
+import { evictSession, getReferencedUrls, listStaleSessions } from "@/lib/store";
+import { SESSION_MAX_AGE_SECONDS } from "@/lib/session";
+
+// Per-session storage quota for generated assets. LC_SESSION_QUOTA_MB=0 disables it.
+export const SESSION_QUOTA_BYTES = Number(process.env.LC_SESSION_QUOTA_MB ?? 500) * 1024 * 1024;
+
+// Assets younger than this are never collected, so an in-flight generation can attach its output
+const GC_GRACE_MS = 10 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastSweep = 0;
+
+// Remove assets no message or version in the session points at anymore
+export async function collectSessionGarbage(sessionId: string) {
+  const { removed, freed } = await deleteUnreferencedAssets(sessionId, getReferencedUrls(sessionId), GC_GRACE_MS);
+  if (removed > 0) {
+    console.log(`🧹 Removed ${removed} unreferenced assets (${(freed / 1024 / 1024).toFixed(1)} MB) - Session: ${sessionId}`);
+  }
+}
+
+// The session cookie is not renewed, so a session nobody saved to for longer than its
+// lifetime can no longer be reached. Runs at most once per SWEEP_INTERVAL_MS.
+export async function maybeSweepExpiredSessions() {
+  const now = Date.now();
+  if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+  lastSweep = now;
+  for (const sessionId of listStaleSessions(now - SESSION_MAX_AGE_SECONDS * 1000)) {
+    evictSession(sessionId);
+    await deleteSessionAssets(sessionId);
+    console.log(`🧹 Removed expired session ${sessionId}`);
+  }
+}
+
+export type QuotaStatus = { ok: boolean; usage: number; quota: number };
+
+// Collects garbage first so deleted threads/projects don't count against the quota
+export async function checkQuota(sessionId: string): Promise<QuotaStatus> {
+  if (!SESSION_QUOTA_BYTES) return { ok: true, usage: 0, quota: 0 };
+  await collectSessionGarbage(sessionId);
+  const usage = await getSessionUsage(sessionId);
+  return { ok: usage < SESSION_QUOTA_BYTES, usage, quota: SESSION_QUOTA_BYTES };
+}
@@ -1,22 +1,72 @@
 // Adapter for Google Generative Language API (Gemini Image & Video)
 
+import type { ImageProvider, VideoProvider } from "@/lib/providers";
+import { getModelKind } from "@/lib/models";
+import { GenerationError, UPSTREAM_TIMEOUT_MS, errorFromFetch, errorFromResponse } from "@/lib/errors";
+
+// One earlier turn of the thread, oldest first; images are only attached within the history window
+export type HistoryTurn = {
+  role: "user" | "model";
+  text?: string;
+  image?: { data: Buffer; mimeType: string };
+};
+
 export type GenerateImageParams = {
   prompt: string;
   baseImage?: { data: Buffer; mimeType: string } | null;
   size?: { width: number; height: number };
   modelId?: string;
   templateId?: string;
+  history?: HistoryTurn[];
+  variant?: number; // index among candidates generated for the same prompt (0 for the first)
+  aspectRatio?: AspectRatio; // shape asked for in the system prompt; `size` is its resolution
+};
+
+export type SafetyRating = {
+  category: string; // e.g. HARM_CATEGORY_HARASSMENT
+  probability: string; // NEGLIGIBLE | LOW | MEDIUM | HIGH
+  blocked?: boolean;
+};
+
+export type TokenUsage = {
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
 };
 
-export type GenerateImageResult = {
+// What the model returned besides the image: its commentary, why it stopped, safety ratings and usage
+export type ResponseDetails = {
+  text?: string;
+  finishReason?: string; // e.g. STOP, SAFETY, IMAGE_SAFETY
+  blockReason?: string; // set when the prompt itself was blocked
+  safetyRatings?: SafetyRating[];
+  usage?: TokenUsage;
+};
+
+export type GenerateImageResult = ResponseDetails & {
   image: Buffer;
   mimeType: string; // e.g., image/png
 };
 
+export type VideoAspectRatio = "16:9" | "9:16";
+export type PersonGeneration = "allow_all" | "allow_adult" | "dont_allow";
+
+// Veo request options; unset fields use the API defaults (negative prompt: DEFAULT_VIDEO_NEGATIVE_PROMPT)
+export type VideoOptions = {
+  aspectRatio?: VideoAspectRatio;
+  durationSeconds?: number;
+  negativePrompt?: string;
+  personGeneration?: PersonGeneration;
+  generateAudio?: boolean;
+};
+
 export type GenerateVideoParams = {
   prompt: string;
   baseImage?: { data: Buffer; mimeType: string } | null;
   modelId?: string;
+  options?: VideoOptions;
+  signal?: AbortSignal; // aborts the request and the operation polling
+  onProgress?: (progress: { done: number; total: number }) => void; // polls so far / max polls
 };
 
 export type GenerateVideoResult = {
@@ -27,70 +77,102 @@ export type GenerateVideoResult = {
 // Model IDs for different Gemini models
 export const GEMINI_IMAGE_MODEL = process.env.GEMINI_IMAGE_MODEL || "gemini-2.5-flash-image-preview";
 export const VEO_3_MODEL = process.env.VEO_3_MODEL || "veo-3.0-generate-preview";
+// Text-only model for helper steps such as the prompt enhancer
+export const GEMINI_TEXT_MODEL = process.env.GEMINI_TEXT_MODEL || "gemini-2.5-flash";
+export const DEFAULT_VIDEO_NEGATIVE_PROMPT = "blurry, low quality, distorted";
+
+// Image aspect ratios and the resolution each is generated at (Gemini 2.5 Flash Image's native sizes)
+export type AspectRatio = "1:1" | "4:5" | "5:4" | "3:4" | "4:3" | "2:3" | "3:2" | "9:16" | "16:9" | "21:9";
+
+export const OUTPUT_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  "1:1": { width: 1024, height: 1024 },
+  "4:5": { width: 896, height: 1152 },
+  "5:4": { width: 1152, height: 896 },
+  "3:4": { width: 864, height: 1184 },
+  "4:3": { width: 1184, height: 864 },
+  "2:3": { width: 832, height: 1248 },
+  "3:2": { width: 1248, height: 832 },
+  "9:16": { width: 768, height: 1344 },
+  "16:9": { width: 1344, height: 768 },
+  "21:9": { width: 1536, height: 672 },
+};
+
+export type PromptTemplate = {
+  name: string;
+  prompt: string;
+  icon: string;
+  aspectRatios: AspectRatio[]; // allowed in the chat form; the first one is the default
+};
 
 // Prompt templates for different use cases
 export const PROMPT_TEMPLATES = {
   logo: {
     name: "Logo Design",
     prompt: `You are a logo-generation assistant using Gemini 2.5 Flash Image.
-Always generate or edit a single logo at exactly 1024x1024 pixels.
+Always generate or edit a single logo.
 Prioritize simple, high-contrast, scalable vector-like aesthetics with clean silhouettes and minimal shapes.
 Maintain the existing composition unless the user explicitly requests a redesign.
-If the user asks for an edit, treat the previous image as the base and apply the change.
-Never output non-1024x1024 images.`,
-    icon: "🎨"
+If the user asks for an edit, treat the previous image as the base and apply the change.`,
+    icon: "🎨",
+    aspectRatios: ["1:1", "4:3", "16:9", "21:9"]
   },
   general: {
     name: "General Images",
     prompt: `You are an image generation assistant using Gemini 2.5 Flash Image.
-Generate high-quality, detailed images at exactly 1024x1024 pixels.
+Generate high-quality, detailed images.
 Focus on photorealistic quality, rich details, and vibrant colors.
 If the user asks for an edit, treat the previous image as the base and apply the change.
-Create visually stunning and accurate representations of the user's request.
-Never output non-1024x1024 images.`,
-    icon: "🖼️"
+Create visually stunning and accurate representations of the user's request.`,
+    icon: "🖼️",
+    aspectRatios: ["1:1", "4:3", "3:4", "16:9", "9:16", "3:2", "2:3"]
   },
   artistic: {
     name: "Artistic Images",
     prompt: `You are an artistic image generation assistant using Gemini 2.5 Flash Image.
-Create artistic, stylized images at exactly 1024x1024 pixels.
+Create artistic, stylized images.
 Focus on creative interpretations, unique art styles, and expressive visuals.
 Emphasize artistic techniques like painting, illustration, digital art, or mixed media styles.
-If the user asks for an edit, treat the previous image as the base and apply the change.
-Never output non-1024x1024 images.`,
-    icon: "🎭"
+If the user asks for an edit, treat the previous image as the base and apply the change.`,
+    icon: "🎭",
+    aspectRatios: ["1:1", "4:5", "3:4", "2:3", "4:3", "3:2"]
   },
   product: {
     name: "Product Images",
     prompt: `You are a product photography assistant using Gemini 2.5 Flash Image.
-Generate clean, professional product images at exactly 1024x1024 pixels.
+Generate clean, professional product images.
 Focus on clear, well-lit product shots with clean backgrounds.
 Emphasize product details, textures, and commercial appeal.
-If the user asks for an edit, treat the previous image as the base and apply the change.
-Never output non-1024x1024 images.`,
-    icon: "📦"
+If the user asks for an edit, treat the previous image as the base and apply the change.`,
+    icon: "📦",
+    aspectRatios: ["1:1", "4:5", "4:3", "5:4"]
   },
   portrait: {
     name: "Portrait & Character",
     prompt: `You are a portrait generation assistant using Gemini 2.5 Flash Image.
-Generate detailed portraits and character images at exactly 1024x1024 pixels.
+Generate detailed portraits and character images.
 Focus on facial features, expressions, and character design.
 Emphasize realistic proportions, lighting, and emotional depth.
-If the user asks for an edit, treat the previous image as the base and apply the change.
-Never output non-1024x1024 images.`,
-    icon: "👤"
+If the user asks for an edit, treat the previous image as the base and apply the change.`,
+    icon: "👤",
+    aspectRatios: ["3:4", "2:3", "4:5", "1:1", "9:16"]
   },
   landscape: {
     name: "Landscapes & Scenes",
     prompt: `You are a landscape and scene generation assistant using Gemini 2.5 Flash Image.
-Generate beautiful landscapes, cityscapes, and environmental scenes at exactly 1024x1024 pixels.
+Generate beautiful landscapes, cityscapes, and environmental scenes.
 Focus on composition, atmospheric effects, and scenic beauty.
 Emphasize depth, lighting, and environmental storytelling.
-If the user asks for an edit, treat the previous image as the base and apply the change.
-Never output non-1024x1024 images.`,
-    icon: "🏞️"
+If the user asks for an edit, treat the previous image as the base and apply the change.`,
+    icon: "🏞️",
+    aspectRatios: ["16:9", "3:2", "21:9", "4:3", "1:1"]
   }
-};
+} satisfies Record<string, PromptTemplate>;
+
+// Allowed aspect ratios of a template (unknown ids use the logo template, like getSystemPrompt)
+export function getTemplateAspectRatios(templateId?: string): AspectRatio[] {
+  const template: PromptTemplate = PROMPT_TEMPLATES[templateId as keyof typeof PROMPT_TEMPLATES] ?? PROMPT_TEMPLATES.logo;
+  return template.aspectRatios;
+}
 
 export const VIDEO_SYSTEM_PROMPT = `You are a video-generation assistant using Veo 3.
 Generate high-quality videos with synchronized audio based on the user's description.
@@ -98,43 +180,114 @@ Create cinematic content with realistic physics and smooth motion.
 Keep videos engaging and professionally produced.
 If provided with an image, use it as the starting frame for the video generation.`;
 
-// Helper function to get system prompt based on model and template
-export function getSystemPrompt(modelId?: string, templateId?: string): string {
-  if (modelId === "veo-3.0-generate-preview") {
+// Helper function to get system prompt based on model and template.
+// With an aspect ratio, the prompt asks for that shape (the output is normalized to it anyway).
+export function getSystemPrompt(modelId?: string, templateId?: string, aspectRatio?: AspectRatio): string {
+  if (getModelKind(modelId) === "video") {
     return VIDEO_SYSTEM_PROMPT;
   }
   
-  if (templateId && PROMPT_TEMPLATES[templateId as keyof typeof PROMPT_TEMPLATES]) {
-    return PROMPT_TEMPLATES[templateId as keyof typeof PROMPT_TEMPLATES].prompt;
-  }
-  
-  // Default to logo prompt for backward compatibility
-  return PROMPT_TEMPLATES.logo.prompt;
+  const template: PromptTemplate =
+    templateId && PROMPT_TEMPLATES[templateId as keyof typeof PROMPT_TEMPLATES]
+      ? PROMPT_TEMPLATES[templateId as keyof typeof PROMPT_TEMPLATES]
+      : PROMPT_TEMPLATES.logo; // Default to logo prompt for backward compatibility
+  if (!aspectRatio) return template.prompt;
+  const { width, height } = OUTPUT_SIZES[aspectRatio];
+  return `${template.prompt}\nOutput a single image with a ${aspectRatio} aspect ratio (${width}x${height} pixels).`;
 }
 
 const API_BASE = process.env.GOOGLE_API_BASE || "https://generativelanguage.googleapis.com";
 
 function assertEnv() {
   if (!process.env.GOOGLE_API_KEY) {
-    throw new Error("Missing GOOGLE_API_KEY in environment");
+    throw new GenerationError("invalid_key", "Missing GOOGLE_API_KEY in environment");
   }
 }
 
+// Finish reasons / block reasons that mean the safety filters stopped the output
+const SAFETY_REASONS = /SAFETY|PROHIBITED_CONTENT|BLOCKLIST|SPII|IMAGE_SAFETY|RECITATION/;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function readSafetyRatings(v: unknown): SafetyRating[] {
+  if (!Array.isArray(v)) return [];
+  return v.flatMap((r) =>
+    isRecord(r) && typeof r["category"] === "string" && typeof r["probability"] === "string"
+      ? [{ category: r["category"], probability: r["probability"], ...(r["blocked"] === true ? { blocked: true } : {}) }]
+      : []
+  );
+}
+
+// Text parts, finish reason, safety ratings (prompt and first candidate) and usage of a generateContent response
+function readResponseDetails(json: Record<string, unknown>): ResponseDetails {
+  const details: ResponseDetails = {};
+  const feedback = json["promptFeedback"];
+  const ratings: SafetyRating[] = [];
+  if (isRecord(feedback)) {
+    if (typeof feedback["blockReason"] === "string") details.blockReason = feedback["blockReason"];
+    ratings.push(...readSafetyRatings(feedback["safetyRatings"]));
+  }
+
+  const candidate = Array.isArray(json["candidates"]) ? json["candidates"][0] : undefined;
+  if (isRecord(candidate)) {
+    if (typeof candidate["finishReason"] === "string") details.finishReason = candidate["finishReason"];
+    ratings.push(...readSafetyRatings(candidate["safetyRatings"]));
+    const content = candidate["content"];
+    const parts = isRecord(content) && Array.isArray(content["parts"]) ? (content["parts"] as unknown[]) : [];
+    const text = parts
+      .flatMap((p) => (isRecord(p) && typeof p["text"] === "string" && !p["text"].startsWith("data:image/") ? [p["text"]] : []))
+      .join("\n")
+      .trim();
+    if (text) details.text = text;
+  }
+  if (ratings.length > 0) details.safetyRatings = ratings;
+
+  const usage = json["usageMetadata"];
+  if (isRecord(usage)) {
+    const num = (k: string) => (typeof usage[k] === "number" ? (usage[k] as number) : undefined);
+    details.usage = {
+      promptTokens: num("promptTokenCount"),
+      outputTokens: num("candidatesTokenCount"),
+      totalTokens: num("totalTokenCount"),
+    };
+  }
+  return details;
+}
+
 // Minimal adapter over Google Generative Language REST API for image output
 // Uses generateContent on an image-capable model; parses inline_data image parts
 export async function generateOrEditImage(params: GenerateImageParams): Promise<GenerateImageResult> {
   assertEnv();
 
-  const { prompt, baseImage, modelId, templateId } = params;
+  const { prompt, baseImage, modelId, templateId, history, aspectRatio } = params;
 
   const model =
     (modelId && /gemini/i.test(modelId) ? modelId : GEMINI_IMAGE_MODEL) || GEMINI_IMAGE_MODEL;
   const url = `${API_BASE}/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(process.env.GOOGLE_API_KEY!)}`;
 
-  type UserPart =
+  type Part =
     | { text: string }
     | { inline_data: { mime_type: string; data: string } };
-  const userParts: UserPart[] = [];
+  type Content = { role: "user" | "model"; parts: Part[] };
+
+  // Prior turns as alternating user/model contents. Consecutive turns with the same role
+  // (e.g. a user message whose reply failed) are merged, and the list must open with a user turn.
+  const contents: Content[] = [];
+  for (const turn of history ?? []) {
+    const parts: Part[] = [];
+    if (turn.image) {
+      parts.push({ inline_data: { mime_type: turn.image.mimeType, data: turn.image.data.toString("base64") } });
+    }
+    if (turn.text) parts.push({ text: turn.text });
+    if (parts.length === 0) continue;
+    const last = contents[contents.length - 1];
+    if (last?.role === turn.role) last.parts.push(...parts);
+    else if (last || turn.role === "user") contents.push({ role: turn.role, parts });
+  }
+
+  const userParts: Part[] = [];
   if (baseImage?.data) {
     userParts.push({
       inline_data: {
@@ -144,44 +297,44 @@ export async function generateOrEditImage(params: GenerateImageParams): Promise<
     });
   }
   userParts.push({ text: prompt });
+  const lastTurn = contents[contents.length - 1];
+  if (lastTurn?.role === "user") lastTurn.parts.push(...userParts);
+  else contents.push({ role: "user", parts: userParts });
 
   // The API currently does not accept image mime types in response_mime_type.
-  // We enforce 1024x1024 via system prompt and server-side sharp post-processing.
+  // We ask for the aspect ratio in the system prompt and normalize the size server-side with sharp.
   // Keep config minimal to avoid validation errors.
   const generationConfig: Record<string, unknown> | undefined = undefined;
 
   const body: Record<string, unknown> = {
     system_instruction: {
       role: "system",
-      parts: [{ text: getSystemPrompt(modelId, templateId) }],
+      parts: [{ text: getSystemPrompt(modelId, templateId, aspectRatio) }],
     },
-    contents: [
-      {
-        role: "user",
-        parts: userParts,
-      },
-    ],
+    contents,
   };
   if (generationConfig) (body as Record<string, unknown>)["generation_config"] = generationConfig;
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(body),
-  });
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+  } catch (e: unknown) {
+    throw errorFromFetch("Gemini", e);
+  }
 
   if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Gemini API error ${res.status}: ${text}`);
+    throw await errorFromResponse("Gemini", res);
   }
 
   const json: unknown = await res.json();
-
-  function isRecord(v: unknown): v is Record<string, unknown> {
-    return typeof v === "object" && v !== null;
-  }
+  const details = isRecord(json) ? readResponseDetails(json) : {};
 
   // Try to find an image in candidates parts
   if (isRecord(json)) {
@@ -197,13 +350,13 @@ export async function generateOrEditImage(params: GenerateImageParams): Promise<
         if (isRecord(inline) && typeof inline["data"] === "string") {
           const mime = typeof inline["mime_type"] === "string" ? (inline["mime_type"] as string) : typeof inline["mimeType"] === "string" ? (inline["mimeType"] as string) : "image/png";
           const buffer = Buffer.from(inline["data"] as string, "base64");
-          return { image: buffer, mimeType: mime };
+          return { image: buffer, mimeType: mime, ...details };
         }
         const text = p["text"];
         if (typeof text === "string" && text.startsWith("data:image/")) {
           const m = text.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,(.*)$/);
           if (m) {
-            return { image: Buffer.from(m[2], "base64"), mimeType: m[1] };
+            return { image: Buffer.from(m[2], "base64"), mimeType: m[1], ...details };
           }
         }
       }
@@ -219,31 +372,101 @@ export async function generateOrEditImage(params: GenerateImageParams): Promise<
       return {
         image: Buffer.from(first["data"] as string, "base64"),
         mimeType: mime,
+        ...details,
       };
     }
   }
 
-  throw new Error("Gemini did not return an image payload");
+  // No image: tell a safety block apart from the model just answering with text
+  if (details.blockReason) {
+    throw new GenerationError("safety_blocked", `Gemini blocked the prompt (${details.blockReason})`, { details });
+  }
+  if (details.finishReason && SAFETY_REASONS.test(details.finishReason)) {
+    throw new GenerationError("safety_blocked", `Gemini withheld the image (${details.finishReason})`, { details });
+  }
+  if (details.text) {
+    throw new GenerationError("no_image", `Gemini answered without an image: ${details.text}`, { details });
+  }
+  throw new GenerationError("no_image", "Gemini did not return an image payload", { details });
+}
+
+// Single-turn text generation (no image output); returns the model's text with its response details
+export async function generateText(params: { system: string; prompt: string; signal?: AbortSignal }): Promise<ResponseDetails & { text: string }> {
+  assertEnv();
+  const url = `${API_BASE}/v1beta/models/${encodeURIComponent(GEMINI_TEXT_MODEL)}:generateContent?key=${encodeURIComponent(process.env.GOOGLE_API_KEY!)}`;
+  const signal = params.signal
+    ? AbortSignal.any([params.signal, AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)])
+    : AbortSignal.timeout(UPSTREAM_TIMEOUT_MS);
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        system_instruction: { role: "system", parts: [{ text: params.system }] },
+        contents: [{ role: "user", parts: [{ text: params.prompt }] }],
+      }),
+      signal,
+    });
+  } catch (e: unknown) {
+    throw errorFromFetch("Gemini", e, params.signal);
+  }
+  if (!res.ok) {
+    throw await errorFromResponse("Gemini", res);
+  }
+
+  const json: unknown = await res.json();
+  const details = isRecord(json) ? readResponseDetails(json) : {};
+  if (details.text) return { ...details, text: details.text };
+  if (details.blockReason) {
+    throw new GenerationError("safety_blocked", `Gemini blocked the prompt (${details.blockReason})`, { details });
+  }
+  if (details.finishReason && SAFETY_REASONS.test(details.finishReason)) {
+    throw new GenerationError("safety_blocked", `Gemini withheld the answer (${details.finishReason})`, { details });
+  }
+  throw new GenerationError("upstream", "Gemini returned no text", { details });
 }
 
 // Video generation function for Veo 3
+// setTimeout that rejects early when the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 export async function generateVideo(params: GenerateVideoParams): Promise<GenerateVideoResult> {
   assertEnv();
 
-  const { prompt, baseImage } = params;
+  const { prompt, baseImage, modelId, options = {}, signal, onProgress } = params;
 
   console.log('🎬 Starting Veo 3 video generation...');
 
-  // Use the correct Veo 3 model name and endpoint as per the documentation
-  const model = "veo-3.0-generate-preview";
+  // Same rule as images: Veo model ids pass through, anything else uses the configured default
+  const model = modelId && /veo/i.test(modelId) ? modelId : VEO_3_MODEL;
   const url = `${API_BASE}/v1beta/models/${encodeURIComponent(model)}:generateVideos?key=${encodeURIComponent(process.env.GOOGLE_API_KEY!)}`;
 
+  const config: Record<string, unknown> = {
+    negative_prompt: options.negativePrompt ?? DEFAULT_VIDEO_NEGATIVE_PROMPT,
+  };
+  if (options.aspectRatio) config.aspect_ratio = options.aspectRatio;
+  if (options.durationSeconds) config.duration_seconds = options.durationSeconds;
+  if (options.personGeneration) config.person_generation = options.personGeneration;
+  if (options.generateAudio !== undefined) config.generate_audio = options.generateAudio;
+
   const body: Record<string, unknown> = {
     prompt: prompt,
-    config: {
-      // Optional negative prompts - can be configured per the documentation
-      negative_prompt: "blurry, low quality, distorted",
-    }
+    config,
   };
 
   // Add base image if provided (for image-to-video generation)
@@ -257,18 +480,24 @@ export async function generateVideo(params: GenerateVideoParams): Promise<Genera
 
   console.log('📤 Sending request to Veo 3 API...');
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(body),
-  });
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)]) : AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+  } catch (e: unknown) {
+    throw errorFromFetch("Veo 3", e, signal);
+  }
 
   if (!res.ok) {
-    const text = await res.text();
-    console.error('❌ Veo 3 API error:', res.status, text);
-    throw new Error(`Veo 3 API error ${res.status}: ${text}`);
+    const err = await errorFromResponse("Veo 3", res);
+    console.error('❌ Veo 3 API error:', err.message);
+    throw err;
   }
 
   const json: unknown = await res.json();
@@ -278,6 +507,10 @@ export async function generateVideo(params: GenerateVideoParams): Promise<Genera
     return typeof v === "object" && v !== null;
   }
 
+  // Failures once the operation is running are not retried automatically: a retry would
+  // start a new multi-minute generation
+  const final = { retryable: false };
+
   // The response is an operation object that needs to be polled
   if (isRecord(json) && typeof json.name === "string") {
     const operationName = json.name;
@@ -285,15 +518,23 @@ export async function generateVideo(params: GenerateVideoParams): Promise<Genera
     
     // Poll the operation until it's complete - videos can take 1-3 minutes
     const maxAttempts = 40; // ~3 minutes with 5-second intervals
+    onProgress?.({ done: 0, total: maxAttempts });
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
+      await sleep(5000, signal); // Wait 5 seconds
       
       const checkUrl = `${API_BASE}/v1beta/operations/${encodeURIComponent(operationName)}?key=${encodeURIComponent(process.env.GOOGLE_API_KEY!)}`;
-      const checkRes = await fetch(checkUrl);
+      let checkRes: Response;
+      try {
+        checkRes = await fetch(checkUrl, { signal });
+      } catch (e: unknown) {
+        throw errorFromFetch("Veo 3", e, signal);
+      }
+      onProgress?.({ done: attempt + 1, total: maxAttempts });
       
       if (!checkRes.ok) {
         console.error('❌ Operation check failed:', checkRes.status);
-        throw new Error(`Operation check failed: ${checkRes.status}`);
+        const err = await errorFromResponse("Veo 3 operation check", checkRes);
+        throw new GenerationError(err.code, err.message, { ...final, upstreamStatus: err.upstreamStatus });
       }
       
       const checkJson: unknown = await checkRes.json();
@@ -312,31 +553,48 @@ export async function generateVideo(params: GenerateVideoParams): Promise<Genera
               const videoFile = firstVideo.video;
               if (typeof videoFile.uri === "string") {
                 console.log('📥 Downloading video from URI...');
-                const videoRes = await fetch(videoFile.uri);
+                const videoRes = await fetch(videoFile.uri, { signal });
                 if (videoRes.ok) {
                   const videoBuffer = Buffer.from(await videoRes.arrayBuffer());
                   console.log('✅ Video downloaded successfully, size:', videoBuffer.length, 'bytes');
                   return { video: videoBuffer, mimeType: "video/mp4" };
                 } else {
-                  throw new Error(`Failed to download video: ${videoRes.status}`);
+                  throw new GenerationError("upstream", `Failed to download video: ${videoRes.status}`, final);
                 }
               }
             }
           }
-          throw new Error("Video generation completed but no video found in response");
+          // Videos removed by the responsible-AI filters come back as filter reasons instead
+          const filtered = isRecord(result) ? result.rai_media_filtered_reasons ?? result.raiMediaFilteredReasons : undefined;
+          if (Array.isArray(filtered) && filtered.length > 0) {
+            throw new GenerationError("safety_blocked", `Veo 3 filtered the video: ${filtered.join("; ")}`, final);
+          }
+          throw new GenerationError("no_image", "Video generation completed but no video found in response", final);
         }
         
         // Check for errors
         if (checkJson.error) {
           console.error('❌ Veo 3 generation error:', checkJson.error);
-          throw new Error(`Veo 3 generation failed: ${JSON.stringify(checkJson.error)}`);
+          const details = JSON.stringify(checkJson.error);
+          const code = SAFETY_REASONS.test(details) || /safety|responsible ai/i.test(details) ? "safety_blocked" : "upstream";
+          throw new GenerationError(code, `Veo 3 generation failed: ${details}`, final);
         }
       }
     }
     
-    throw new Error("Veo 3 video generation timed out after 3+ minutes");
+    throw new GenerationError("timeout", "Veo 3 video generation timed out after 3+ minutes", final);
   }
 
   console.error('❌ Invalid response from Veo 3:', json);
-  throw new Error("Veo 3 did not return a valid operation");
+  throw new GenerationError("upstream", "Veo 3 did not return a valid operation");
 }
+
+export const geminiImageProvider: ImageProvider = {
+  id: "gemini",
+  generateImage: generateOrEditImage,
+};
+
+export const veoVideoProvider: VideoProvider = {
+  id: "veo",
+  generateVideo,
+};
@@ -0,0 +1,85 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Storage paths are read when the modules load, so they are imported after the environment is set
+process.env.LC_STORE = "memory";
+process.env.LC_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "lc-generation-test-"));
+process.env.GOOGLE_API_KEY = "test";
+let generation: typeof import("@/lib/generation");
+let store: typeof import("@/lib/store");
+let jobs: typeof import("@/lib/jobs");
+let assets: typeof import("@/lib/assets");
+let providers: typeof import("@/lib/providers");
+before(async () => {
+  generation = await import("@/lib/generation");
+  store = await import("@/lib/store");
+  jobs = await import("@/lib/jobs");
+  assets = await import("@/lib/assets");
+  providers = await import("@/lib/providers");
+});
+after(() => fs.rmSync(process.env.LC_DATA_DIR!, { recursive: true, force: true }));
+
+const VIDEO_MODEL = "veo-3.0-generate-preview";
+
+// Video provider whose answer the test releases by hand
+function pendingVideo() {
+  let finish!: (outcome: Buffer | Error) => void;
+  const done = new Promise<Buffer | Error>((resolve) => (finish = resolve));
+  providers.registerVideoProvider(VIDEO_MODEL, {
+    id: "test",
+    async generateVideo() {
+      const outcome = await done;
+      if (outcome instanceof Error) throw outcome;
+      return { video: outcome, mimeType: "video/mp4" };
+    },
+  });
+  return finish;
+}
+
+async function startVideo(sid: string, projectId: string) {
+  const result = await generation.runGeneration(sid, projectId, { prompt: "spin", threadId: "default", modelId: VIDEO_MODEL, count: 1 });
+  assert.equal(result.status, 202);
+  return result.body.job as import("@/lib/jobs").Job;
+}
+
+const settled = (sid: string, id: string) => new Promise<void>((resolve) => jobs.whenJobSettled(sid, id, resolve));
+
+for (const outcome of ["finishes", "fails"] as const) {
+  test(`a video job that ${outcome} after its project was deleted leaves nothing behind`, async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (e: unknown) => unhandled.push(e);
+    process.on("unhandledRejection", onUnhandled);
+    try {
+      const sid = `s-${outcome}`;
+      const project = store.createProject(sid, "Video");
+      const finish = pendingVideo();
+      const job = await startVideo(sid, project.id);
+      assert.equal(store.deleteProject(sid, project.id), true);
+
+      finish(outcome === "finishes" ? Buffer.from("mp4") : new Error("Veo failed"));
+      await settled(sid, job.id);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      assert.equal(jobs.getJob(sid, job.id)?.status, "failed");
+      assert.equal(store.resolveProjectId(sid, project.id), null);
+      assert.equal(await assets.getSessionUsage(sid), 0);
+      assert.deepEqual(unhandled, []);
+    } finally {
+      process.off("unhandledRejection", onUnhandled);
+    }
+  });
+}
+
+test("an unreadable upload is refused before the prompt is recorded", async () => {
+  const result = await generation.runGeneration("s-upload", store.DEFAULT_PROJECT_ID, {
+    prompt: "logo",
+    threadId: "default",
+    upload: Buffer.from("not an image"),
+    count: 1,
+  });
+  assert.equal(result.status, 400);
+  assert.deepEqual(store.getMessages("s-upload", store.DEFAULT_PROJECT_ID, "default"), []);
+});
@@ -0,0 +1,483 @@
+import {
+  addMessage,
+  addVersion,
+  createVersionId,
+  getThread,
+  hasThread,
+  selectVersion,
+  type ChatMessage,
+  type ImageCandidate,
+} from "@/lib/store";
+import { getImageProvider, getVideoProvider } from "@/lib/providers";
+import { DEFAULT_MODEL_ID, getModel, getModelKind, sendsHistory, type ModelCapabilities } from "@/lib/models";
+import {
+  OUTPUT_SIZES,
+  getSystemPrompt,
+  getTemplateAspectRatios,
+  type AspectRatio,
+  type PersonGeneration,
+  type VideoAspectRatio,
+  type VideoOptions,
+} from "@/lib/gemini";
+import { normalizeImage, removeBackground } from "@/lib/image";
+import { assetUrl, deleteAsset, saveAsset } from "@/lib/assets";
+import { checkQuota, maybeSweepExpiredSessions } from "@/lib/gc";
+import { buildHistory, HISTORY_IMAGES } from "@/lib/history";
+import { createJob, type Job } from "@/lib/jobs";
+import { GenerationError, withRetry, type GenerationErrorCode } from "@/lib/errors";
+import { mergeUsage, usageOfCall, type CallUsage } from "@/lib/usage";
+import { CACHE_ENABLED, cacheKey, readCache, writeCache } from "@/lib/cache";
+import type { Enhancement } from "@/lib/enhance";
+import fs from "node:fs";
+import path from "node:path";
+
+// One prompt sent to /api/messages, after request parsing
+export type GenerationInput = {
+  prompt: string;
+  threadId: string;
+  upload?: Buffer | null; // optional user-provided base image
+  themeName?: string;
+  modelId?: string;
+  templateId?: string;
+  count: number; // candidate images to generate (ignored for video)
+  aspectRatio?: string; // image shape, one of the template's aspect ratios (default: its first)
+  video?: VideoOptions; // ignored for image models
+  fresh?: boolean; // skip the generation cache lookup (the result still replaces the cached one)
+  transparent?: boolean; // key out the background of image results (see removeBackground)
+  enhancement?: Enhancement; // prompt enhancer step the prompt came from (see lib/enhance.ts)
+};
+
+// Progress events of one generation, in order. Streamed to the client in SSE mode.
+export type GenerationEvent =
+  | { type: "accepted"; thread: string; messageId: string }
+  | { type: "base_image"; source: "upload" | "theme" | "last" | "none" }
+  | { type: "upstream"; provider: string; model?: string; count: number }
+  | { type: "polling"; attempt: number; maxAttempts: number }
+  | { type: "cache_hit"; variant: number }
+  | { type: "postprocess"; variant?: number }
+  | { type: "background"; variant: number; removed: boolean }
+  | { type: "saved"; message: ChatMessage }
+  | { type: "job"; job: Job }
+  | { type: "retry"; attempt: number; code: GenerationErrorCode; delayMs: number }
+  | { type: "error"; error: string; status: number; code?: GenerationErrorCode; retryable?: boolean };
+
+export type GenerationResult = {
+  status: number;
+  body: Record<string, unknown>;
+  headers?: Record<string, string>;
+};
+
+// Response for a failed generation: typed errors keep their status, code, retry hint and
+// whatever the model answered instead (e.g. the safety ratings behind a block)
+export function errorResult(e: unknown, text: string): GenerationResult {
+  if (!(e instanceof GenerationError)) return { status: 500, body: { error: text } };
+  const retryAfter = e.retryAfterMs !== undefined ? Math.ceil(e.retryAfterMs / 1000) : undefined;
+  return {
+    status: e.httpStatus,
+    body: { error: text, code: e.code, retryable: e.retryable, retryAfter, details: e.details },
+    headers: retryAfter !== undefined ? { "Retry-After": String(retryAfter) } : undefined,
+  };
+}
+
+const ASPECT_RATIOS: VideoAspectRatio[] = ["16:9", "9:16"];
+const PERSON_GENERATION: PersonGeneration[] = ["allow_all", "allow_adult", "dont_allow"];
+const MAX_NEGATIVE_PROMPT_LENGTH = 500;
+
+// Shape-check the `video` field of a request; throws with a message for the 400 response
+export function parseVideoOptions(raw: unknown): VideoOptions {
+  if (raw === undefined || raw === null || raw === "") return {};
+  const v = typeof raw === "string" ? JSON.parse(raw) : raw;
+  if (typeof v !== "object" || v === null) throw new Error("video options must be an object");
+  const o = v as Record<string, unknown>;
+  const options: VideoOptions = {};
+  if (o.aspectRatio !== undefined) {
+    if (!ASPECT_RATIOS.includes(o.aspectRatio as VideoAspectRatio)) throw new Error(`Unsupported aspect ratio ${o.aspectRatio}`);
+    options.aspectRatio = o.aspectRatio as VideoAspectRatio;
+  }
+  if (o.durationSeconds !== undefined) {
+    const d = Number(o.durationSeconds);
+    if (!Number.isInteger(d) || d <= 0) throw new Error("durationSeconds must be a positive integer");
+    options.durationSeconds = d;
+  }
+  if (o.negativePrompt !== undefined) {
+    if (typeof o.negativePrompt !== "string") throw new Error("negativePrompt must be a string");
+    options.negativePrompt = o.negativePrompt.trim().slice(0, MAX_NEGATIVE_PROMPT_LENGTH);
+  }
+  if (o.personGeneration !== undefined) {
+    if (!PERSON_GENERATION.includes(o.personGeneration as PersonGeneration)) {
+      throw new Error(`Unsupported personGeneration ${o.personGeneration}`);
+    }
+    options.personGeneration = o.personGeneration as PersonGeneration;
+  }
+  if (o.generateAudio !== undefined) {
+    if (typeof o.generateAudio !== "boolean") throw new Error("generateAudio must be a boolean");
+    options.generateAudio = o.generateAudio;
+  }
+  return options;
+}
+
+// Options the model can't honour, as an error message
+function unsupportedVideoOption(options: VideoOptions, caps?: ModelCapabilities): string | null {
+  const video = caps?.video;
+  if (!video) return null;
+  if (options.aspectRatio && !video.aspectRatios.includes(options.aspectRatio)) {
+    return `Aspect ratio ${options.aspectRatio} is not supported (use ${video.aspectRatios.join(", ")})`;
+  }
+  if (options.durationSeconds && !video.durations.includes(options.durationSeconds)) {
+    return `Duration ${options.durationSeconds}s is not supported (use ${video.durations.join(", ")})`;
+  }
+  if (options.personGeneration && !video.personGeneration.includes(options.personGeneration)) {
+    return `personGeneration ${options.personGeneration} is not supported`;
+  }
+  if (options.generateAudio && !video.audio) return "This model cannot generate audio";
+  return null;
+}
+
+// Record the prompt, pick the base image and generate. Images complete before this returns;
+// video is started as a background job (status 202 with the job).
+export async function runGeneration(
+  sid: string,
+  projectId: string,
+  input: GenerationInput,
+  emit: (event: GenerationEvent) => void = () => {}
+): Promise<GenerationResult> {
+  const { prompt, threadId, upload, themeName, modelId } = input;
+
+  // Unknown ids keep working with default capabilities; known but unconfigured models are refused
+  const model = getModel(modelId);
+  if (model && !model.enabled) {
+    return { status: 400, body: { error: `${model.label} is not available: ${model.disabledReason}`, retryable: false } };
+  }
+  const kind = getModelKind(modelId);
+  const caps = model?.capabilities;
+  const count = Math.min(input.count, caps?.maxCandidates ?? input.count);
+  const templateId = input.templateId ?? caps?.defaultTemplate;
+  if (kind === "video") {
+    const unsupported = unsupportedVideoOption(input.video ?? {}, caps);
+    if (unsupported) return { status: 400, body: { error: unsupported, retryable: false } };
+  }
+  // Output shape of image models; uploads and themes are fitted to the same size
+  const aspectRatios = getTemplateAspectRatios(templateId);
+  if (kind === "image" && input.aspectRatio && !aspectRatios.includes(input.aspectRatio as AspectRatio)) {
+    return {
+      status: 400,
+      body: { error: `Aspect ratio ${input.aspectRatio} is not offered for this template (use ${aspectRatios.join(", ")})`, retryable: false },
+    };
+  }
+  const aspectRatio = (input.aspectRatio as AspectRatio | undefined) ?? aspectRatios[0];
+  const size = OUTPUT_SIZES[aspectRatio];
+
+  // Reject an unreadable upload before anything is recorded, so it can't leave a prompt without a reply
+  let normalizedUpload: Buffer | null = null;
+  if (upload) {
+    try {
+      normalizedUpload = await normalizeImage(upload, size);
+    } catch (e: unknown) {
+      console.warn(`⚠️ Unreadable upload for thread ${threadId}:`, e);
+      return { status: 400, body: { error: "The uploaded image could not be read", retryable: false } };
+    }
+  }
+
+  maybeSweepExpiredSessions().catch((e) => console.error("❌ Session sweep failed:", e));
+
+  const quota = await checkQuota(sid);
+  if (!quota.ok) {
+    const mb = (n: number) => (n / 1024 / 1024).toFixed(1);
+    return {
+      status: 507,
+      body: {
+        error: `Storage quota exceeded: ${mb(quota.usage)} MB of ${mb(quota.quota)} MB used. Delete threads or projects to free space.`,
+        code: "quota_exceeded",
+        retryable: false,
+        usage: quota.usage,
+        quota: quota.quota,
+      },
+    };
+  }
+
+  // Record user message
+  const userMsg: ChatMessage = {
+    id: `${Date.now()}-u`,
+    role: "user" as const,
+    text: prompt,
+    // Keep what the user typed when the prompt came from the enhancer, and the enhancer's usage
+    originalPrompt: input.enhancement?.original,
+    usage: input.enhancement?.usage,
+    timestamp: Date.now(),
+  };
+  addMessage(sid, projectId, threadId, userMsg);
+  emit({ type: "accepted", thread: threadId, messageId: userMsg.id });
+
+  // Determine base image: uploaded or theme or last in this thread
+  const threadState = getThread(sid, projectId, threadId);
+  
+  // Debug logging to verify thread state
+  console.log(`🔍 Thread ${threadId} state:`, {
+    hasLastImage: !!threadState.lastImage,
+    lastImageSize: threadState.lastImage?.length || 0,
+    lastImageMime: threadState.lastImageMime,
+    messageCount: threadState.messages.length
+  });
+
+  // Optional theme image from public/themes
+  let themeBuffer: Buffer | null = null;
+  if (themeName) {
+    try {
+      const themesDir = path.join(process.cwd(), "public", "themes");
+      const safeName = path.basename(themeName);
+      const themePath = path.join(themesDir, safeName);
+      const stat = await fs.promises.stat(themePath);
+      if (stat.isFile()) {
+        const raw = await fs.promises.readFile(themePath);
+        themeBuffer = await normalizeImage(raw, size);
+      }
+    } catch {
+      // ignore invalid theme
+      themeBuffer = null;
+    }
+  }
+
+  // Precedence: upload > theme > lastImage (none if the model can't take one)
+  const baseImage = caps?.baseImage === false
+    ? null
+    : normalizedUpload
+    ? { data: normalizedUpload, mimeType: "image/png" }
+    : themeBuffer
+    ? { data: themeBuffer, mimeType: "image/png" }
+    : threadState.lastImage
+    ? { data: threadState.lastImage, mimeType: threadState.lastImageMime || "image/png" }
+    : null;
+
+  // Debug logging for base image selection
+  console.log(`🎯 Base image selection for thread ${threadId}:`, {
+    hasUpload: !!normalizedUpload,
+    hasTheme: !!themeBuffer,
+    hasLastImage: !!threadState.lastImage,
+    selectedSource: normalizedUpload ? 'upload' : themeBuffer ? 'theme' : threadState.lastImage ? 'lastImage' : 'none',
+    baseImageSize: baseImage?.data?.length || 0
+  });
+  emit({
+    type: "base_image",
+    source: !baseImage ? "none" : normalizedUpload ? "upload" : themeBuffer ? "theme" : threadState.lastImage ? "last" : "none",
+  });
+
+  // Upstream calls that got an answer, recorded on the reply (or the error) for usage accounting
+  const calls: CallUsage[] = [];
+  const usageModelId = modelId || DEFAULT_MODEL_ID;
+
+  try {
+    if (modelId && kind === "video") {
+      // Video takes minutes: run it as a background job (Veo 3) and answer right away.
+      // The client polls /api/jobs/<id>; the video is attached to the thread when the job finishes.
+      const provider = getVideoProvider(modelId);
+      emit({ type: "upstream", provider: provider.id, model: modelId, count: 1 });
+      const job = createJob(sid, {
+        kind: "video",
+        projectId,
+        threadId,
+        run: async ({ signal, report }) => {
+          const started = Date.now();
+          const { video } = await withRetry(
+            () =>
+              provider.generateVideo({
+                prompt,
+                baseImage,
+                modelId,
+                options: input.video,
+                signal,
+                onProgress: report,
+              }),
+            { signal, label: `Video for thread ${threadId}` }
+          );
+
+          // The thread or its project may have been deleted (or the job cancelled) while the video rendered
+          const gone = () => signal.aborted || !hasThread(sid, projectId, threadId);
+          if (gone()) throw new Error("The thread was deleted before the video finished");
+
+          // Persist video as a session-owned asset
+          const asset = await saveAsset(sid, projectId, video, "video/mp4");
+          if (gone()) {
+            await deleteAsset(sid, asset.id);
+            throw new Error("The thread was deleted before the video finished");
+          }
+          const relUrl = assetUrl(asset.id);
+
+          const assistantMsg = {
+            id: `${Date.now()}-a`,
+            role: "assistant" as const,
+            videoUrl: relUrl,
+            usage: {
+              modelId,
+              calls: 1,
+              // Billed per generated second; unset means the model's default (its longest duration)
+              videoSeconds: input.video?.durationSeconds ?? caps?.video?.durations.at(-1),
+              latencyMs: Date.now() - started,
+            },
+            timestamp: Date.now(),
+          };
+          addMessage(sid, projectId, threadId, assistantMsg);
+          return { messageId: assistantMsg.id, videoUrl: relUrl };
+        },
+        onError: (msg) => {
+          if (!hasThread(sid, projectId, threadId)) return;
+          addMessage(sid, projectId, threadId, {
+            id: `${Date.now()}-a-err`,
+            role: "assistant",
+            text: `Error: ${msg}`,
+            timestamp: Date.now(),
+          });
+        },
+      });
+
+      emit({ type: "job", job });
+      return { status: 202, body: { thread: threadId, job } };
+    } else {
+      // Earlier turns of this thread, for models that take them; the current version is already
+      // attached as the base image
+      const currentVersion = threadState.versions.find((v) => v.id === threadState.currentVersionId);
+      const history = sendsHistory(modelId)
+        ? await buildHistory(sid, threadState.messages.filter((m) => m.id !== userMsg.id), {
+            skipImageUrl: !normalizedUpload && !themeBuffer ? currentVersion?.imageUrl : undefined,
+            // The base image counts against the model's reference image limit
+            images: Math.max(0, Math.min(HISTORY_IMAGES, (caps?.maxReferenceImages ?? Infinity) - (baseImage ? 1 : 0))),
+          })
+        : [];
+
+      // Generate `count` candidates in parallel (Gemini Image unless the model maps to another provider)
+      const provider = getImageProvider(modelId);
+      emit({ type: "upstream", provider: provider.id, model: modelId, count });
+      const results = await Promise.allSettled(
+        Array.from({ length: count }, async (_, variant) => {
+          // Identical requests (same model, prompts, base image, history and candidate index) reuse the stored image
+          const key = CACHE_ENABLED
+            ? cacheKey({
+                model: `${provider.id}:${usageModelId}`,
+                systemPrompt: getSystemPrompt(modelId, templateId, aspectRatio),
+                prompt,
+                baseImage: baseImage?.data,
+                history,
+                size,
+                variant,
+              })
+            : null;
+          // The cache keeps the image as generated; the background is removed on every use
+          const withoutBackground = async (png: Buffer) => {
+            if (!input.transparent) return png;
+            const keyed = await removeBackground(png);
+            emit({ type: "background", variant, removed: keyed !== null });
+            return keyed ?? png;
+          };
+          const hit = key && !input.fresh ? await readCache(key) : null;
+          if (hit) {
+            emit({ type: "cache_hit", variant });
+            const png = await withoutBackground(hit.data);
+            const asset = await saveAsset(sid, projectId, png, "image/png");
+            return { png, imageUrl: assetUrl(asset.id), details: hit.details, cached: true };
+          }
+
+          const { image, ...details } = await withRetry(
+            async () => {
+              const started = Date.now();
+              try {
+                const result = await provider.generateImage({
+                  prompt,
+                  baseImage,
+                  size,
+                  aspectRatio,
+                  modelId,
+                  templateId,
+                  history,
+                  variant,
+                });
+                calls.push(usageOfCall(usageModelId, result.usage, Date.now() - started));
+                return result;
+              } catch (e: unknown) {
+                // Refusals still bill the prompt tokens
+                if (e instanceof GenerationError && e.details?.usage) {
+                  calls.push(usageOfCall(usageModelId, e.details.usage, Date.now() - started));
+                }
+                throw e;
+              }
+            },
+            {
+              label: `Image ${variant + 1}/${count} for thread ${threadId}`,
+              onRetry: (err, attempt, delayMs) => emit({ type: "retry", attempt, code: err.code, delayMs }),
+            }
+          );
+          // Fit to the chosen size as PNG and persist as a session-owned asset
+          emit({ type: "postprocess", variant });
+          const normalized = await normalizeImage(image, size);
+          if (key) {
+            const { text, finishReason, safetyRatings } = details;
+            await writeCache(key, normalized, "image/png", { text, finishReason, safetyRatings }).catch((e) =>
+              console.warn("⚠️ Failed to write generation cache:", e)
+            );
+          }
+          const png = await withoutBackground(normalized);
+          const asset = await saveAsset(sid, projectId, png, "image/png");
+          return { png, imageUrl: assetUrl(asset.id), details, cached: false };
+        })
+      );
+      const images = results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+      if (images.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+      if (images.length < count) {
+        console.warn(`⚠️ ${count - images.length} of ${count} candidates failed for thread ${threadId}`);
+      }
+
+      // Every candidate is a version; the first one becomes the base for the next edit
+      const candidates: ImageCandidate[] = [];
+      for (const { png, imageUrl } of images) {
+        const versionId = createVersionId();
+        addVersion(sid, projectId, threadId, {
+          id: versionId,
+          imageUrl,
+          mimeType: "image/png",
+          prompt,
+          timestamp: Date.now(),
+        }, png);
+        candidates.push({ versionId, imageUrl });
+      }
+      if (candidates.length > 1) {
+        selectVersion(sid, projectId, threadId, candidates[0].versionId, images[0].png);
+      }
+
+      // The first candidate's commentary and ratings describe the reply; usage covers every call
+      const { text, finishReason, safetyRatings } = images[0].details;
+      const assistantMsg: ChatMessage = {
+        id: `${Date.now()}-a`,
+        role: "assistant" as const,
+        text,
+        imageUrl: candidates[0].imageUrl,
+        versionId: candidates[0].versionId,
+        candidates: candidates.length > 1 ? candidates : undefined,
+        details: { finishReason, safetyRatings },
+        usage: mergeUsage(calls),
+        cached: images.every((i) => i.cached) || undefined,
+        timestamp: Date.now(),
+      };
+      addMessage(sid, projectId, threadId, assistantMsg);
+      emit({ type: "saved", message: assistantMsg });
+
+      return { status: 200, body: { thread: threadId, message: assistantMsg } };
+    }
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    // Keep why the model refused (finish reason, safety ratings) next to the error text
+    const refusal = e instanceof GenerationError ? e.details : undefined;
+    const details = refusal && {
+      finishReason: refusal.finishReason,
+      blockReason: refusal.blockReason,
+      safetyRatings: refusal.safetyRatings,
+    };
+    const assistantMsg = {
+      id: `${Date.now()}-a-err`,
+      role: "assistant" as const,
+      text: `Error: ${msg}`,
+      details,
+      usage: mergeUsage(calls),
+      timestamp: Date.now(),
+    };
+    addMessage(sid, projectId, threadId, assistantMsg);
+    return errorResult(e, assistantMsg.text);
+  }
+}
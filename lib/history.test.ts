@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildHistory } from "@/lib/history";
+import { sendsHistory } from "@/lib/models";
+
+test("a forked thread's first message adds its image, not its placeholder text", async () => {
+  const history = await buildHistory(
+    "s1",
+    [
+      { id: "1-u", role: "user", text: "coffee logo", timestamp: 1 },
+      { id: "2-inherited", role: "assistant", text: "Inherited from parent node", imageUrl: "/api/assets/x", timestamp: 2 },
+    ],
+    { images: 0 }
+  );
+  assert.deepEqual(history, [
+    { role: "user", text: "coffee logo" },
+    { role: "model", text: "[generated an image]" },
+  ]);
+});
+
+test("only models that take history are sent it", () => {
+  assert.equal(sendsHistory("gemini-2.5-flash-image-preview"), true);
+  assert.equal(sendsHistory("gpt-5"), false);
+  assert.equal(sendsHistory("mock-image"), false);
+  assert.equal(sendsHistory("veo-3.0-generate-preview"), false);
+});
@@ -0,0 +1,48 @@
+import type { ChatMessage } from "@/lib/store";
+import type { HistoryTurn } from "@/lib/gemini";
+import { loadAsset } from "@/lib/assets";
+
+// How many earlier messages are sent along with a prompt (0 disables history), and how many
+// of the most recent generated images among them are attached as image data.
+export const HISTORY_TURNS = Math.max(0, Number(process.env.GEMINI_HISTORY_TURNS ?? 10) || 0);
+export const HISTORY_IMAGES = Math.max(0, Number(process.env.GEMINI_HISTORY_IMAGES ?? 2) || 0);
+
+// Turn stored thread messages (oldest first) into model history. Error replies are dropped,
+// videos become a short note, and `skipImageUrl` (the image already sent as the base image)
+// is not attached a second time. The message a forked thread starts with keeps its image but
+// not its placeholder text, which the model never said.
+export async function buildHistory(
+  sessionId: string,
+  messages: ChatMessage[],
+  opts: { skipImageUrl?: string; turns?: number; images?: number } = {}
+): Promise<HistoryTurn[]> {
+  const turns = opts.turns ?? HISTORY_TURNS;
+  let imageBudget = opts.images ?? HISTORY_IMAGES;
+  if (turns === 0) return [];
+
+  const window = messages
+    .filter((m) => !(m.role === "assistant" && m.text?.startsWith("Error:")))
+    .slice(-turns);
+
+  const history: HistoryTurn[] = [];
+  // Walk newest to oldest so the image budget goes to the latest images
+  for (let i = window.length - 1; i >= 0; i--) {
+    const m = window[i];
+    const inherited = m.id.endsWith("-inherited"); // see cloneThread
+    const turn: HistoryTurn = { role: m.role === "user" ? "user" : "model", text: inherited ? undefined : m.text };
+    if (m.imageUrl && m.imageUrl !== opts.skipImageUrl && imageBudget > 0) {
+      try {
+        turn.image = await loadAsset(sessionId, m.imageUrl);
+        imageBudget--;
+      } catch {
+        console.warn(`⚠️ History image ${m.imageUrl} is missing, sending text only`);
+      }
+    }
+    if (!turn.image && (m.imageUrl || m.videoUrl)) {
+      const note = m.videoUrl ? "[generated a video]" : "[generated an image]";
+      turn.text = turn.text ? `${turn.text}\n${note}` : note;
+    }
+    history.unshift(turn);
+  }
+  return history;
+}
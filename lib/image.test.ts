@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import { edgeColor, normalizeImage } from "@/lib/image";
+
+// Near-white background with a large red mark, so the whole-image mean is visibly pink
+const logo = (width: number, height: number) =>
+  sharp(
+    Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="#fafafa"/><circle cx="${width / 2}" cy="${height / 2}" r="${Math.min(width, height) * 0.45}" fill="#ff0000"/></svg>`
+    )
+  )
+    .png()
+    .toBuffer();
+
+async function pixel(png: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const p = (y * info.width + x) * 4;
+  return [...data.subarray(p, p + 4)];
+}
+
+test("edgeColor averages the border, not the whole image", async () => {
+  const color = await edgeColor(await logo(1344, 768), 1344, 768);
+  assert.deepEqual(color, { r: 250, g: 250, b: 250, alpha: 1 });
+});
+
+test("normalizeImage pads off-ratio images with their border color", async () => {
+  const out = await normalizeImage(await logo(1344, 768), { width: 1024, height: 1024 });
+  const meta = await sharp(out).metadata();
+  assert.equal(meta.width, 1024);
+  assert.equal(meta.height, 1024);
+  // Top pad bar and the mark in the middle
+  assert.deepEqual(await pixel(out, 512, 10), [250, 250, 250, 255]);
+  assert.deepEqual(await pixel(out, 512, 512), [255, 0, 0, 255]);
+});
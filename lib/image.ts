@@ -1,28 +1,201 @@
 import sharp from "sharp";
 
-export const TARGET_SIZE = 1024;
+export type Size = { width: number; height: number };
 
-export async function enforcePng1024(input: Buffer): Promise<Buffer> {
+export type Rgba = { r: number; g: number; b: number; alpha: number };
+
+const TRANSPARENT: Rgba = { r: 0, g: 0, b: 0, alpha: 0 };
+
+export const DEFAULT_SIZE: Size = { width: 1024, height: 1024 };
+
+// Aspect ratios closer than this are resized to the target directly; the distortion is invisible
+const FIT_TOLERANCE = 0.03;
+
+// Mean color of the outermost pixel rows and columns, used to pad without visible bars
+export async function edgeColor(input: Buffer, width: number, height: number): Promise<Rgba> {
+  const strips = [
+    { left: 0, top: 0, width, height: 1 },
+    { left: 0, top: height - 1, width, height: 1 },
+    { left: 0, top: 0, width: 1, height },
+    { left: width - 1, top: 0, width: 1, height },
+  ];
+  // stats() describes the whole input even after extract(), so read the strip pixels out first
+  const pixels = await Promise.all(
+    strips.map((region) => sharp(input, { limitInputPixels: false }).extract(region).ensureAlpha().raw().toBuffer())
+  );
+  const sums = [0, 0, 0, 0];
+  let count = 0;
+  for (const strip of pixels) {
+    for (let p = 0; p < strip.length; p += 4) {
+      for (let c = 0; c < 4; c++) sums[c] += strip[p + c];
+    }
+    count += strip.length / 4;
+  }
+  const avg = (i: number) => Math.round(sums[i] / count);
+  return { r: avg(0), g: avg(1), b: avg(2), alpha: avg(3) / 255 };
+}
+
+// PNG at exactly `size`. Images with (nearly) the target aspect ratio are resized to fit;
+// others are scaled to fit inside and padded with their edge color, so nothing is cropped.
+export async function normalizeImage(input: Buffer, size: Size = DEFAULT_SIZE): Promise<Buffer> {
   const img = sharp(input, { limitInputPixels: false });
   const meta = await img.metadata();
-  const width = meta.width ?? TARGET_SIZE;
-  const height = meta.height ?? TARGET_SIZE;
+  const width = meta.width ?? size.width;
+  const height = meta.height ?? size.height;
 
-  if (width === TARGET_SIZE && height === TARGET_SIZE && (meta.format === "png")) {
+  if (width === size.width && height === size.height && meta.format === "png") {
     // Already correct size and PNG
     return input;
   }
 
-  // Center-crop to square before resizing to avoid distortion
-  const size = Math.min(width, height);
-  const left = Math.max(0, Math.floor((width - size) / 2));
-  const top = Math.max(0, Math.floor((height - size) / 2));
+  const ratioDelta = Math.abs(width / height / (size.width / size.height) - 1);
+  const resized =
+    ratioDelta <= FIT_TOLERANCE
+      ? img.resize(size.width, size.height, { fit: "fill" })
+      : img.resize(size.width, size.height, { fit: "contain", background: await edgeColor(input, width, height) });
 
-  const output = await img
-    .extract({ left, top, width: size, height: size })
-    .resize(TARGET_SIZE, TARGET_SIZE, { fit: "cover" })
-    .png({ compressionLevel: 9, adaptiveFiltering: true })
+  return resized.png({ compressionLevel: 9, adaptiveFiltering: true }).toBuffer();
+}
+
+// Square PNG of `size` px with the whole image inside, `inset` (fraction of the side) kept free on
+// every edge for icon safe zones. Padding is transparent unless a background is given; an opaque
+// background also fills the image's own transparent pixels (iOS shows those as black).
+export async function squareIcon(
+  input: Buffer,
+  size: number,
+  options: { inset?: number; background?: Rgba } = {}
+): Promise<Buffer> {
+  const background = options.background ?? TRANSPARENT;
+  const inner = Math.max(1, Math.round(size * (1 - 2 * (options.inset ?? 0))));
+  const fitted = await sharp(input, { limitInputPixels: false })
+    .resize(inner, inner, { fit: "contain", background: TRANSPARENT, kernel: inner < 64 ? "lanczos2" : "lanczos3" })
+    .png()
+    .toBuffer();
+  return sharp({ create: { width: size, height: size, channels: 4, background } })
+    .composite([{ input: fitted, gravity: "center" }])
+    .png({ compressionLevel: 9 })
     .toBuffer();
-  return output;
 }
 
+// Windows icon holding the given square PNGs (PNG-compressed entries, supported since Vista)
+export function toIco(pngs: { size: number; data: Buffer }[]): Buffer {
+  const header = Buffer.alloc(6);
+  header.writeUInt16LE(0, 0);
+  header.writeUInt16LE(1, 2); // 1 = icon
+  header.writeUInt16LE(pngs.length, 4);
+  const dir = Buffer.alloc(16 * pngs.length);
+  let offset = header.length + dir.length;
+  pngs.forEach(({ size, data }, i) => {
+    const at = i * 16;
+    dir.writeUInt8(size >= 256 ? 0 : size, at); // 0 means 256
+    dir.writeUInt8(size >= 256 ? 0 : size, at + 1);
+    dir.writeUInt8(0, at + 2); // no palette
+    dir.writeUInt8(0, at + 3);
+    dir.writeUInt16LE(1, at + 4); // color planes
+    dir.writeUInt16LE(32, at + 6); // bits per pixel
+    dir.writeUInt32LE(data.length, at + 8);
+    dir.writeUInt32LE(offset, at + 12);
+    offset += data.length;
+  });
+  return Buffer.concat([header, dir, ...pngs.map((p) => p.data)]);
+}
+
+// Background keying: border pixels within `tolerance` (RGB distance) of the dominant border color
+// and everything connected to them through such pixels become transparent. Pixels up to
+// `feather` further away at the edge of that region get partial alpha, with the background
+// color taken out of them so no light halo is left around the shape.
+export type BackgroundOptions = { tolerance?: number; feather?: number };
+
+const BG_TOLERANCE = 40;
+const BG_FEATHER = 30;
+// The most common border color must cover this share of the border to count as a background
+const MIN_BORDER_SHARE = 0.5;
+
+// Average of the most common border color (4 bits per channel buckets), or null if none dominates
+function dominantBorderColor(data: Buffer, width: number, height: number): [number, number, number] | null {
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  let total = 0;
+  const add = (i: number) => {
+    const p = i * 4;
+    if (data[p + 3] < 128) return;
+    const key = ((data[p] >> 4) << 8) | ((data[p + 1] >> 4) << 4) | (data[p + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[p];
+    bucket.g += data[p + 1];
+    bucket.b += data[p + 2];
+    buckets.set(key, bucket);
+    total++;
+  };
+  for (let x = 0; x < width; x++) {
+    add(x);
+    add((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    add(y * width);
+    add(y * width + width - 1);
+  }
+  const top = [...buckets.values()].reduce((a, b) => (b.count > a.count ? b : a), { count: 0, r: 0, g: 0, b: 0 });
+  if (total === 0 || top.count / total < MIN_BORDER_SHARE) return null;
+  return [top.r / top.count, top.g / top.count, top.b / top.count];
+}
+
+// PNG with the background keyed out, or null when the border has no dominant color to remove
+export async function removeBackground(input: Buffer, options: BackgroundOptions = {}): Promise<Buffer | null> {
+  const tolerance = options.tolerance ?? BG_TOLERANCE;
+  const feather = Math.max(1, options.feather ?? BG_FEATHER);
+  const { data, info } = await sharp(input, { limitInputPixels: false })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const bg = dominantBorderColor(data, width, height);
+  if (!bg) return null;
+
+  const n = width * height;
+  const distance = (i: number) =>
+    Math.hypot(data[i * 4] - bg[0], data[i * 4 + 1] - bg[1], data[i * 4 + 2] - bg[2]);
+  // 1 = keep, 0 = background; only pixels within the tolerance spread the fill further
+  const keep = new Float32Array(n).fill(1);
+  const seen = new Uint8Array(n);
+  const queue = new Int32Array(n);
+  let head = 0;
+  let tail = 0;
+  const visit = (i: number) => {
+    if (seen[i]) return;
+    seen[i] = 1;
+    const d = distance(i);
+    if (d > tolerance + feather) return;
+    keep[i] = d <= tolerance ? 0 : (d - tolerance) / feather;
+    if (d <= tolerance) queue[tail++] = i;
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < n - width) visit(i + width);
+  }
+  if (tail === 0) return null;
+
+  for (let i = 0; i < n; i++) {
+    const a = keep[i];
+    if (a >= 1) continue;
+    const p = i * 4;
+    if (a > 0) {
+      // Un-mix the background from edge pixels: c = a * fg + (1 - a) * bg
+      for (let c = 0; c < 3; c++) data[p + c] = Math.max(0, Math.min(255, Math.round((data[p + c] - (1 - a) * bg[c]) / a)));
+    }
+    data[p + 3] = Math.round(data[p + 3] * a);
+  }
+  return sharp(data, { raw: { width, height, channels: 4 } }).png({ compressionLevel: 9, adaptiveFiltering: true }).toBuffer();
+}
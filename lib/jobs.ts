@@ -0,0 +1,210 @@
+import { GenerationError, type GenerationErrorCode } from "@/lib/errors";
+
+// In-memory registry of background generation jobs (video). Jobs live in this process only:
+// a restart loses running jobs, but finished results are already attached to their thread.
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export type JobProgress = { done: number; total: number };
+
+export type JobResult = { messageId: string; videoUrl?: string; imageUrl?: string };
+
+export type Job = {
+  id: string;
+  kind: "video";
+  projectId: string;
+  threadId: string;
+  status: JobStatus;
+  progress?: JobProgress;
+  result?: JobResult;
+  error?: string;
+  errorCode?: GenerationErrorCode; // set when the failure was a typed upstream error
+  retryable?: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type JobContext = {
+  signal: AbortSignal;
+  report(progress: JobProgress): void;
+};
+
+type JobEntry = Job & {
+  sessionId: string;
+  controller: AbortController;
+  run: (ctx: JobContext) => Promise<JobResult>;
+  onError?: (message: string) => void;
+};
+
+// Jobs beyond this many running at once wait in FIFO order
+const MAX_RUNNING_JOBS = Math.max(1, Number(process.env.LC_MAX_RUNNING_JOBS ?? 2) || 1);
+// Finished jobs stay queryable for a while so a client can pick up the outcome
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+type Registry = {
+  jobs: Map<string, JobEntry>;
+  queue: JobEntry[];
+  running: number;
+  watchers: Map<string, Set<(job: Job) => void>>;
+};
+
+// Route handlers may be bundled separately, each with its own copy of this module,
+// so the registry lives on globalThis where every route sees the same jobs
+const registry: Registry = ((globalThis as { __logoChatJobs?: Registry }).__logoChatJobs ??= {
+  jobs: new Map(),
+  queue: [],
+  running: 0,
+  watchers: new Map(),
+});
+const { jobs, queue, watchers } = registry;
+
+function publicJob(entry: JobEntry): Job {
+  const { id, kind, projectId, threadId, status, progress, result, error, errorCode, retryable, createdAt, updatedAt } = entry;
+  return { id, kind, projectId, threadId, status, progress, result, error, errorCode, retryable, createdAt, updatedAt };
+}
+
+function update(entry: JobEntry, patch: Partial<Job>) {
+  Object.assign(entry, patch, { updatedAt: Date.now() });
+  const job = publicJob(entry);
+  for (const listener of watchers.get(entry.id) ?? []) listener(job);
+}
+
+function pruneFinished(now = Date.now()) {
+  for (const [id, entry] of jobs) {
+    if (entry.status !== "queued" && entry.status !== "running" && now - entry.updatedAt > FINISHED_JOB_TTL_MS) {
+      jobs.delete(id);
+    }
+  }
+}
+
+function startNext() {
+  while (registry.running < MAX_RUNNING_JOBS && queue.length > 0) {
+    const entry = queue.shift()!;
+    if (entry.status !== "queued") continue;
+    registry.running++;
+    void execute(entry).finally(() => {
+      registry.running--;
+      startNext();
+    });
+  }
+}
+
+async function execute(entry: JobEntry) {
+  update(entry, { status: "running" });
+  console.log(`🏃 Job ${entry.id} started - Thread: ${entry.threadId}`);
+  try {
+    const result = await entry.run({
+      signal: entry.controller.signal,
+      report: (progress) => {
+        if (entry.status === "running") update(entry, { progress });
+      },
+    });
+    if (entry.status !== "running") return; // cancelled meanwhile
+    update(entry, { status: "done", result });
+    console.log(`✅ Job ${entry.id} done`);
+  } catch (e: unknown) {
+    if (entry.status !== "running") return;
+    const msg = e instanceof Error ? e.message : String(e);
+    update(entry, {
+      status: "failed",
+      error: msg,
+      errorCode: e instanceof GenerationError ? e.code : undefined,
+      retryable: e instanceof GenerationError ? e.retryable : undefined,
+    });
+    console.error(`❌ Job ${entry.id} failed:`, msg);
+    try {
+      entry.onError?.(msg);
+    } catch (e) {
+      console.error(`❌ Error handler of job ${entry.id} failed:`, e);
+    }
+  }
+}
+
+// Queue `run` as a job owned by the session. `onError` runs when the job fails (not when cancelled).
+export function createJob(
+  sessionId: string,
+  params: {
+    kind: Job["kind"];
+    projectId: string;
+    threadId: string;
+    run: (ctx: JobContext) => Promise<JobResult>;
+    onError?: (message: string) => void;
+  }
+): Job {
+  pruneFinished();
+  const now = Date.now();
+  const entry: JobEntry = {
+    id: `job-${now}-${Math.floor(Math.random() * 1e6)}`,
+    kind: params.kind,
+    projectId: params.projectId,
+    threadId: params.threadId,
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    sessionId,
+    controller: new AbortController(),
+    run: params.run,
+    onError: params.onError,
+  };
+  jobs.set(entry.id, entry);
+  queue.push(entry);
+  startNext();
+  return publicJob(entry);
+}
+
+// Jobs are only visible to the session that created them
+export function getJob(sessionId: string, id: string): Job | undefined {
+  const entry = jobs.get(id);
+  return entry && entry.sessionId === sessionId ? publicJob(entry) : undefined;
+}
+
+export function listJobs(sessionId: string, filter: { projectId?: string; threadId?: string } = {}): Job[] {
+  return [...jobs.values()]
+    .filter(
+      (j) =>
+        j.sessionId === sessionId &&
+        (!filter.projectId || j.projectId === filter.projectId) &&
+        (!filter.threadId || j.threadId === filter.threadId)
+    )
+    .map(publicJob);
+}
+
+// Call `listener` on every status/progress change of the job. Returns the unsubscribe function.
+export function watchJob(sessionId: string, id: string, listener: (job: Job) => void): () => void {
+  const entry = jobs.get(id);
+  if (!entry || entry.sessionId !== sessionId) return () => {};
+  let set = watchers.get(id);
+  if (!set) watchers.set(id, (set = new Set()));
+  set.add(listener);
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) watchers.delete(id);
+  };
+}
+
+// Call `callback` once the job is done, failed or cancelled (right away if it already is)
+export function whenJobSettled(sessionId: string, id: string, callback: () => void) {
+  const entry = jobs.get(id);
+  if (!entry || entry.sessionId !== sessionId || (entry.status !== "queued" && entry.status !== "running")) {
+    callback();
+    return;
+  }
+  const stop = watchJob(sessionId, id, (job) => {
+    if (job.status === "queued" || job.status === "running") return;
+    stop();
+    callback();
+  });
+}
+
+// Returns the job after cancelling, or undefined if it doesn't exist for this session.
+// Finished jobs are returned unchanged.
+export function cancelJob(sessionId: string, id: string): Job | undefined {
+  const entry = jobs.get(id);
+  if (!entry || entry.sessionId !== sessionId) return undefined;
+  if (entry.status === "queued" || entry.status === "running") {
+    update(entry, { status: "cancelled" });
+    entry.controller.abort();
+    console.log(`🛑 Job ${entry.id} cancelled`);
+  }
+  return publicJob(entry);
+}
@@ -0,0 +1,114 @@
+import sharp from "sharp";
+import { createHash } from "node:crypto";
+import type { ImageProvider, VideoProvider } from "@/lib/providers";
+
+// Offline provider for developing the chat/canvas flow without API keys.
+// Output is deterministic: the same prompt, template and base image always render the same placeholder.
+export const MOCK_IMAGE_MODEL = "mock-image";
+
+const SHAPES = [
+  (c: number) => `<circle cx="${c}" cy="${c * 0.8}" r="${c * 0.38}" />`,
+  (c: number) => `<rect x="${c * 0.62}" y="${c * 0.42}" width="${c * 0.76}" height="${c * 0.76}" rx="${c * 0.12}" />`,
+  (c: number) => `<polygon points="${c},${c * 0.38} ${c * 1.42},${c * 1.18} ${c * 0.58},${c * 1.18}" />`,
+  (c: number) => {
+    const r = c * 0.4;
+    const pts = Array.from({ length: 6 }, (_, i) => {
+      const a = (Math.PI / 3) * i - Math.PI / 2;
+      return `${(c + r * Math.cos(a)).toFixed(1)},${(c * 0.8 + r * Math.sin(a)).toFixed(1)}`;
+    });
+    return `<polygon points="${pts.join(" ")}" />`;
+  },
+];
+
+function escapeXml(s: string): string {
+  return s.replace(/[<>&"']/g, (ch) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[ch]!);
+}
+
+function wrap(text: string, width: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if ((line + " " + word).trim().length > width && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = (line + " " + word).trim();
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = lines[maxLines - 1].slice(0, width - 1) + "…";
+  }
+  return lines;
+}
+
+export const mockImageProvider: ImageProvider = {
+  id: "mock",
+  async generateImage({ prompt, baseImage, size, templateId, variant }) {
+    const width = size?.width ?? 1024;
+    const height = size?.height ?? 1024;
+    const hash = createHash("sha256")
+      .update(prompt)
+      .update(templateId || "")
+      .update(baseImage?.data ?? Buffer.alloc(0))
+      .update(variant ? String(variant) : "")
+      .digest();
+    const hue = (hash[0] * 360) / 256;
+    const accent = (hue + 150) % 360;
+    const c = Math.min(width, height) / 2;
+    const shape = SHAPES[hash[1] % SHAPES.length](c);
+    const lines = wrap(prompt, 28, 4);
+    const fontSize = Math.round(c * 0.085);
+    const textY = c * 1.45;
+
+    const label = lines
+      .map(
+        (l, i) =>
+          `<text x="${c}" y="${i * fontSize * 1.25}" font-family="sans-serif" font-size="${fontSize}" fill="#fff" text-anchor="middle">${escapeXml(l)}</text>`
+      )
+      .join("\n      ");
+    // First generation: gradient, shape and caption. Edits: tint the base image and add the
+    // instruction as a banner, so successive steps visibly build on each other.
+    const content = baseImage
+      ? `<rect width="100%" height="100%" fill="hsl(${hue},70%,50%)" fill-opacity="0.3" />
+  <rect width="100%" height="${fontSize * (lines.length * 1.25 + 1)}" fill="#000" fill-opacity="0.55" />
+  <g transform="translate(${(width - 2 * c) / 2},${fontSize * 1.3})">
+      ${label}
+  </g>`
+      : `<defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="hsl(${hue},70%,55%)" />
+      <stop offset="1" stop-color="hsl(${(hue + 40) % 360},70%,35%)" />
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#bg)" />
+  <g transform="translate(${(width - 2 * c) / 2},${(height - 2 * c) / 2})">
+    <g fill="hsl(${accent},80%,60%)" stroke="#fff" stroke-width="${c * 0.02}">${shape}</g>
+    <g transform="translate(0,${textY})">
+      ${label}
+    </g>
+  </g>`;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  ${content}
+  <rect y="${height - fontSize * 1.4}" width="100%" height="${fontSize * 1.4}" fill="#000" fill-opacity="0.55" />
+  <text x="${width / 2}" y="${height - fontSize * 0.6}" font-family="monospace" font-size="${fontSize * 0.6}" fill="#fff" fill-opacity="0.8" text-anchor="middle">mock · ${hash.toString("hex").slice(0, 8)}</text>
+</svg>`;
+
+    const base = baseImage?.data
+      ? sharp(baseImage.data).resize(width, height, { fit: "cover" })
+      : sharp({ create: { width, height, channels: 4, background: "#000000" } });
+    const image = await base
+      .composite([{ input: Buffer.from(svg) }])
+      .png()
+      .toBuffer();
+    return { image, mimeType: "image/png" };
+  },
+};
+
+export const mockVideoProvider: VideoProvider = {
+  id: "mock",
+  async generateVideo() {
+    throw new Error("The mock provider cannot generate video; pick an image model or unset LC_PROVIDER=mock");
+  },
+};
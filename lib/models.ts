@@ -0,0 +1,123 @@
+// Models offered in the UI and what each can do. Routes and prompts dispatch on these
+// capabilities instead of checking model ids. Kept free of server-only imports because
+// lib/gemini.ts (used client-side for the templates) reads it.
+
+import type { PersonGeneration, VideoAspectRatio } from "@/lib/gemini";
+
+export type ModelKind = "image" | "video";
+
+export type ModelCapabilities = {
+  kind: ModelKind;
+  baseImage: boolean; // accepts an image to edit (image) or start from (video)
+  maxReferenceImages: number; // images per request, counting the base image and history images
+  history: boolean; // earlier turns of the thread (text and recent images) are sent with each prompt
+  maxCandidates: number; // parallel candidates per prompt
+  defaultTemplate?: string; // prompt template used when the request names none
+  video?: {
+    aspectRatios: VideoAspectRatio[]; // first one is the default
+    durations: number[]; // seconds; last one is the default
+    personGeneration: PersonGeneration[];
+    audio: boolean; // can generate a soundtrack
+  };
+};
+
+export type ModelInfo = {
+  id: string;
+  label: string;
+  provider: "OpenAI" | "Gemini" | "Other";
+  icon: string; // public path to icon
+  capabilities: ModelCapabilities;
+  enabled: boolean;
+  disabledReason?: string;
+};
+
+type ModelDefinition = Omit<ModelInfo, "enabled" | "disabledReason"> & {
+  requires: string[]; // env vars that must be set for the model to work
+};
+
+export const DEFAULT_MODEL_ID = "gemini-2.5-flash-image-preview";
+
+const MODELS: ModelDefinition[] = [
+  {
+    id: "gemini-2.5-flash-image-preview",
+    label: "Gemini 2.5 Flash Image",
+    provider: "Gemini",
+    icon: "/google_logo.png",
+    capabilities: { kind: "image", baseImage: true, maxReferenceImages: 3, history: true, maxCandidates: 4, defaultTemplate: "logo" },
+    requires: ["GOOGLE_API_KEY"],
+  },
+  {
+    id: "veo-3.0-generate-preview",
+    label: "Veo 3 Video Generation",
+    provider: "Gemini",
+    icon: "/google_logo.png",
+    capabilities: {
+      kind: "video",
+      baseImage: true,
+      maxReferenceImages: 1,
+      history: false,
+      maxCandidates: 1,
+      video: {
+        aspectRatios: ["16:9", "9:16"],
+        durations: [4, 6, 8],
+        personGeneration: ["allow_adult", "dont_allow", "allow_all"],
+        audio: true,
+      },
+    },
+    requires: ["GOOGLE_API_KEY"],
+  },
+  {
+    id: "gpt-5",
+    label: "GPT-5 (OpenAI Images)",
+    provider: "OpenAI",
+    icon: "/openai-logo.png",
+    capabilities: { kind: "image", baseImage: true, maxReferenceImages: 1, history: false, maxCandidates: 4, defaultTemplate: "logo" },
+    requires: ["OPENAI_API_KEY"],
+  },
+  {
+    id: "mock-image",
+    label: "Mock (offline placeholder)",
+    provider: "Other",
+    icon: "/file.svg",
+    capabilities: { kind: "image", baseImage: true, maxReferenceImages: 1, history: false, maxCandidates: 4, defaultTemplate: "logo" },
+    requires: [],
+  },
+];
+
+// With LC_PROVIDER=mock every image model renders placeholders; video has no mock
+function availability(def: ModelDefinition): Pick<ModelInfo, "enabled" | "disabledReason"> {
+  if (process.env.LC_PROVIDER === "mock") {
+    return def.capabilities.kind === "image"
+      ? { enabled: true }
+      : { enabled: false, disabledReason: "Not available with LC_PROVIDER=mock" };
+  }
+  const missing = def.requires.filter((key) => !process.env[key]);
+  return missing.length === 0 ? { enabled: true } : { enabled: false, disabledReason: `Set ${missing.join(", ")} to enable` };
+}
+
+function toInfo(def: ModelDefinition): ModelInfo {
+  const { id, label, provider, icon } = def;
+  // The mock provider ignores the thread's history
+  const capabilities = process.env.LC_PROVIDER === "mock" ? { ...def.capabilities, history: false } : def.capabilities;
+  return { id, label, provider, icon, capabilities, ...availability(def) };
+}
+
+export function listModels(): ModelInfo[] {
+  return MODELS.map(toInfo);
+}
+
+export function getModel(modelId?: string): ModelInfo | undefined {
+  const def = MODELS.find((m) => m.id === (modelId || DEFAULT_MODEL_ID));
+  return def && toInfo(def);
+}
+
+// Unknown ids (e.g. a GEMINI_IMAGE_MODEL override sent by an API client) are treated as image models
+export function getModelKind(modelId?: string): ModelKind {
+  return getModel(modelId)?.capabilities.kind ?? "image";
+}
+
+// Whether a prompt to this model is sent with the thread's earlier turns. Unknown ids go to
+// the Gemini image provider, which takes them (or the mock, which doesn't).
+export function sendsHistory(modelId?: string): boolean {
+  return getModel(modelId)?.capabilities.history ?? process.env.LC_PROVIDER !== "mock";
+}
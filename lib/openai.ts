@@ -0,0 +1,124 @@
+// Adapter for OpenAI-compatible image APIs (/images/generations, /images/edits)
+
+import type { ImageProvider } from "@/lib/providers";
+import { getSystemPrompt, type GenerateImageParams, type GenerateImageResult, type TokenUsage } from "@/lib/gemini";
+import { GenerationError, UPSTREAM_TIMEOUT_MS, errorFromFetch, errorFromResponse } from "@/lib/errors";
+
+// Model sent upstream; the "gpt-5" entry in the UI is routed here
+export const OPENAI_IMAGE_MODEL = process.env.OPENAI_IMAGE_MODEL || "gpt-image-1";
+
+// Point at any OpenAI-compatible server (Azure proxy, local gateway, ...)
+const API_BASE = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "");
+
+function assertEnv() {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new GenerationError("invalid_key", "Missing OPENAI_API_KEY in environment");
+  }
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+// The images API has no system role, so the template guidance is prefixed to the prompt
+function buildPrompt(params: GenerateImageParams): string {
+  return `${getSystemPrompt(params.modelId, params.templateId)}\n\nUser request: ${params.prompt}`;
+}
+
+async function send(url: string, init: RequestInit & { signal: AbortSignal }): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (e: unknown) {
+    throw errorFromFetch("OpenAI", e);
+  }
+}
+
+// gpt-image-* report token usage; older models omit it
+function readUsage(v: unknown): TokenUsage | undefined {
+  if (!isRecord(v)) return undefined;
+  const num = (k: string) => (typeof v[k] === "number" ? (v[k] as number) : undefined);
+  return { promptTokens: num("input_tokens"), outputTokens: num("output_tokens"), totalTokens: num("total_tokens") };
+}
+
+async function parseImageResponse(res: Response, signal: AbortSignal): Promise<GenerateImageResult> {
+  if (!res.ok) {
+    throw await errorFromResponse("OpenAI", res);
+  }
+
+  const json: unknown = await res.json();
+  const usage = isRecord(json) ? readUsage(json["usage"]) : undefined;
+  const first = isRecord(json) && Array.isArray(json["data"]) ? json["data"][0] : undefined;
+  if (isRecord(first)) {
+    if (typeof first["b64_json"] === "string") {
+      return { image: Buffer.from(first["b64_json"], "base64"), mimeType: "image/png", usage };
+    }
+    // Older models (dall-e-*) may answer with a short-lived URL instead
+    if (typeof first["url"] === "string") {
+      const imgRes = await send(first["url"], { signal });
+      if (!imgRes.ok) throw new GenerationError("upstream", `Failed to download OpenAI image: ${imgRes.status}`);
+      let image: Buffer;
+      try {
+        image = Buffer.from(await imgRes.arrayBuffer());
+      } catch (e: unknown) {
+        throw errorFromFetch("OpenAI", e);
+      }
+      return { image, mimeType: imgRes.headers.get("content-type") || "image/png", usage };
+    }
+  }
+
+  throw new GenerationError("no_image", "OpenAI did not return an image payload");
+}
+
+// gpt-image-1 only renders square, landscape or portrait; the closest is padded to the exact size later
+function openAiSize(size: GenerateImageParams["size"]): string {
+  if (!size) return "1024x1024";
+  const ratio = size.width / size.height;
+  if (ratio > 1.2) return "1536x1024";
+  if (ratio < 1 / 1.2) return "1024x1536";
+  return "1024x1024";
+}
+
+// Generates from scratch, or edits when a base image is given. The caller normalizes the
+// base image and the result to PNG at the target size, exactly as for Gemini.
+export async function generateOrEditImageOpenAI(params: GenerateImageParams): Promise<GenerateImageResult> {
+  assertEnv();
+
+  const { baseImage, size } = params;
+  const sizeParam = openAiSize(size);
+  const headers = { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` };
+  // One timeout for the API call and, for URL answers, the image download
+  const signal = AbortSignal.timeout(UPSTREAM_TIMEOUT_MS);
+
+  if (baseImage?.data) {
+    const form = new FormData();
+    form.append("model", OPENAI_IMAGE_MODEL);
+    form.append("prompt", buildPrompt(params));
+    form.append("size", sizeParam);
+    form.append(
+      "image",
+      new Blob([new Uint8Array(baseImage.data)], { type: baseImage.mimeType || "image/png" }),
+      "image.png"
+    );
+    return parseImageResponse(await send(`${API_BASE}/images/edits`, { method: "POST", headers, body: form, signal }), signal);
+  }
+
+  return parseImageResponse(
+    await send(`${API_BASE}/images/generations`, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: OPENAI_IMAGE_MODEL,
+        prompt: buildPrompt(params),
+        size: sizeParam,
+        n: 1,
+      }),
+      signal,
+    }),
+    signal
+  );
+}
+
+export const openaiImageProvider: ImageProvider = {
+  id: "openai",
+  generateImage: generateOrEditImageOpenAI,
+};
@@ -0,0 +1,59 @@
+import {
+  GEMINI_IMAGE_MODEL,
+  VEO_3_MODEL,
+  geminiImageProvider,
+  veoVideoProvider,
+  type GenerateImageParams,
+  type GenerateImageResult,
+  type GenerateVideoParams,
+  type GenerateVideoResult,
+} from "@/lib/gemini";
+import { MOCK_IMAGE_MODEL, mockImageProvider, mockVideoProvider } from "@/lib/mock";
+import { openaiImageProvider } from "@/lib/openai";
+
+// Backends that turn a prompt (+ optional base image) into an image or video.
+// Routes look providers up by model id instead of calling a vendor adapter directly.
+export type ImageProvider = {
+  id: string;
+  generateImage(params: GenerateImageParams): Promise<GenerateImageResult>;
+};
+
+export type VideoProvider = {
+  id: string;
+  generateVideo(params: GenerateVideoParams): Promise<GenerateVideoResult>;
+};
+
+const imageProviders = new Map<string, ImageProvider>();
+const videoProviders = new Map<string, VideoProvider>();
+
+export function registerImageProvider(modelId: string, provider: ImageProvider) {
+  imageProviders.set(modelId, provider);
+}
+
+export function registerVideoProvider(modelId: string, provider: VideoProvider) {
+  videoProviders.set(modelId, provider);
+}
+
+// LC_PROVIDER=mock routes every model to the offline mock provider (no API keys needed)
+function mockAll(): boolean {
+  return process.env.LC_PROVIDER === "mock";
+}
+
+// Unknown model ids fall back to the default Gemini image model
+export function getImageProvider(modelId?: string): ImageProvider {
+  if (mockAll()) return mockImageProvider;
+  return (modelId && imageProviders.get(modelId)) || imageProviders.get(GEMINI_IMAGE_MODEL) || geminiImageProvider;
+}
+
+export function getVideoProvider(modelId: string): VideoProvider {
+  const provider = videoProviders.get(modelId);
+  if (!provider) throw new Error(`No video provider registered for model ${modelId}`);
+  return mockAll() ? mockVideoProvider : provider;
+}
+
+registerImageProvider(GEMINI_IMAGE_MODEL, geminiImageProvider);
+registerImageProvider("gemini-2.5-flash-image-preview", geminiImageProvider);
+registerImageProvider(MOCK_IMAGE_MODEL, mockImageProvider);
+registerImageProvider("gpt-5", openaiImageProvider);
+registerVideoProvider(VEO_3_MODEL, veoVideoProvider);
+registerVideoProvider("veo-3.0-generate-preview", veoVideoProvider);
@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { acquireGenerationSlot, clientIp } from "@/lib/ratelimit";
+
+test("without trusted proxies one busy session doesn't throttle the others", () => {
+  const ip = clientIp(new Headers({ "x-forwarded-for": "203.0.113.7", "x-real-ip": "203.0.113.7" }));
+  assert.equal(ip, undefined);
+
+  let refused = 0;
+  for (let i = 0; i < 50; i++) {
+    const slot = acquireGenerationSlot("busy", ip);
+    if (slot.ok) slot.release();
+    else refused++;
+  }
+  assert.ok(refused > 0, "the session limit still applies");
+
+  for (let i = 0; i < 50; i++) {
+    const slot = acquireGenerationSlot(`other-${i}`, ip);
+    assert.ok(slot.ok, `session other-${i} was refused`);
+    slot.release();
+  }
+});
@@ -0,0 +1,143 @@
+// Limits on generation requests: how many a session and an IP may start per window (sliding
+// window), and how many of a session's generations may run at once. Counters live in this
+// process only and, like the job registry, on globalThis so every route sees the same state.
+
+const WINDOW_MS = Math.max(1000, Number(process.env.LC_RATE_LIMIT_WINDOW_MS ?? 60_000) || 60_000);
+// 0 disables the respective limit
+const SESSION_LIMIT = Math.max(0, Number(process.env.LC_RATE_LIMIT_SESSION ?? 10) || 0);
+const IP_LIMIT = Math.max(0, Number(process.env.LC_RATE_LIMIT_IP ?? 30) || 0);
+const MAX_CONCURRENT = Math.max(0, Number(process.env.LC_MAX_CONCURRENT_GENERATIONS ?? 2) || 0);
+// Reverse proxies in front of the app that append the caller's address to X-Forwarded-For.
+// 0: forwarding headers come from the client and are ignored, and so is the IP limit.
+const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.LC_TRUSTED_PROXY_HOPS ?? 0)) || 0);
+
+// Remaining requests for the tighter of the session and IP limits
+export type RateLimitQuota = {
+  limit: number | null; // null when no window limit applies
+  remaining: number | null;
+  resetMs: number; // until the oldest counted request leaves the window
+  windowMs: number;
+  running: number; // generations of this session in progress
+  maxConcurrent: number | null;
+};
+
+export type SlotResult =
+  | { ok: true; quota: RateLimitQuota; release: () => void }
+  | { ok: false; quota: RateLimitQuota; code: "throttled" | "busy"; error: string; retryAfterMs: number };
+
+type Registry = {
+  hits: Map<string, number[]>; // request timestamps per "s:<session>" / "ip:<address>"
+  running: Map<string, number>;
+};
+
+const registry: Registry = ((globalThis as { __logoChatRateLimits?: Registry }).__logoChatRateLimits ??= {
+  hits: new Map(),
+  running: new Map(),
+});
+
+// Address the outermost trusted proxy received the request from. Entries left of it in
+// X-Forwarded-For are whatever the client sent, so they never pick the bucket.
+// Undefined when there is no address to trust; only the session limits apply then.
+export function clientIp(headers: Headers): string | undefined {
+  if (TRUSTED_PROXY_HOPS === 0) return undefined;
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+  if (hops.length > 0) return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)];
+  return headers.get("x-real-ip")?.trim() || undefined;
+}
+
+function recentHits(key: string, now: number): number[] {
+  const hits = (registry.hits.get(key) ?? []).filter((t) => now - t < WINDOW_MS);
+  if (hits.length > 0) registry.hits.set(key, hits);
+  else registry.hits.delete(key);
+  return hits;
+}
+
+function prune(now: number) {
+  for (const [key, hits] of registry.hits) {
+    if (now - hits[hits.length - 1] >= WINDOW_MS) registry.hits.delete(key);
+  }
+}
+
+// The limits that apply to this request with their counted hits
+function buckets(sessionId: string, ip: string | undefined, now: number) {
+  const list: { key: string; limit: number; hits: number[] }[] = [];
+  if (SESSION_LIMIT > 0) list.push({ key: `s:${sessionId}`, limit: SESSION_LIMIT, hits: recentHits(`s:${sessionId}`, now) });
+  if (IP_LIMIT > 0 && ip) list.push({ key: `ip:${ip}`, limit: IP_LIMIT, hits: recentHits(`ip:${ip}`, now) });
+  return list;
+}
+
+export function getQuota(sessionId: string, ip?: string, now = Date.now()): RateLimitQuota {
+  const list = buckets(sessionId, ip, now);
+  const tightest = list.reduce<(typeof list)[number] | undefined>(
+    (best, b) => (!best || b.limit - b.hits.length < best.limit - best.hits.length ? b : best),
+    undefined
+  );
+  return {
+    limit: tightest?.limit ?? null,
+    remaining: tightest ? Math.max(0, tightest.limit - tightest.hits.length) : null,
+    resetMs: tightest?.hits.length ? Math.max(0, tightest.hits[0] + WINDOW_MS - now) : 0,
+    windowMs: WINDOW_MS,
+    running: registry.running.get(sessionId) ?? 0,
+    maxConcurrent: MAX_CONCURRENT > 0 ? MAX_CONCURRENT : null,
+  };
+}
+
+// Count a generation request against the limits and hold one of the session's concurrency slots.
+// Call `release` when the generation finishes (video: when its job ends).
+export function acquireGenerationSlot(sessionId: string, ip?: string): SlotResult {
+  const now = Date.now();
+  prune(now);
+  const list = buckets(sessionId, ip, now);
+
+  const exceeded = list.find((b) => b.hits.length >= b.limit);
+  if (exceeded) {
+    const retryAfterMs = Math.max(1000, exceeded.hits[exceeded.hits.length - exceeded.limit] + WINDOW_MS - now);
+    const who = exceeded.key.startsWith("ip:") ? "from your network" : "in this session";
+    return {
+      ok: false,
+      quota: getQuota(sessionId, ip, now),
+      code: "throttled",
+      error: `Too many generations ${who}: ${exceeded.limit} per ${Math.round(WINDOW_MS / 1000)}s. Try again in ${Math.ceil(retryAfterMs / 1000)}s.`,
+      retryAfterMs,
+    };
+  }
+
+  const running = registry.running.get(sessionId) ?? 0;
+  if (MAX_CONCURRENT > 0 && running >= MAX_CONCURRENT) {
+    return {
+      ok: false,
+      quota: getQuota(sessionId, ip, now),
+      code: "busy",
+      error: `${running} generation${running === 1 ? " is" : "s are"} already running. Wait for one to finish.`,
+      retryAfterMs: 5000,
+    };
+  }
+
+  for (const b of list) registry.hits.set(b.key, [...b.hits, now]);
+  registry.running.set(sessionId, running + 1);
+  let released = false;
+  return {
+    ok: true,
+    quota: getQuota(sessionId, ip, now),
+    release: () => {
+      if (released) return;
+      released = true;
+      const n = (registry.running.get(sessionId) ?? 1) - 1;
+      if (n > 0) registry.running.set(sessionId, n);
+      else registry.running.delete(sessionId);
+    },
+  };
+}
+
+// X-RateLimit-* headers describing the quota after this request
+export function quotaHeaders(quota: RateLimitQuota): Record<string, string> {
+  if (quota.limit === null || quota.remaining === null) return {};
+  return {
+    "X-RateLimit-Limit": String(quota.limit),
+    "X-RateLimit-Remaining": String(quota.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(quota.resetMs / 1000)),
+  };
+}
@@ -2,6 +2,7 @@ import { cookies } from "next/headers";
 import { randomBytes } from "node:crypto";
 
 const COOKIE_NAME = "lc_session";
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 7 days
 
 export async function getOrCreateSessionId(): Promise<string> {
   const c = await cookies();
@@ -12,7 +13,7 @@ export async function getOrCreateSessionId(): Promise<string> {
     httpOnly: true,
     sameSite: "lax",
     path: "/",
-    maxAge: 60 * 60 * 24 * 7, // 7 days
+    maxAge: SESSION_MAX_AGE_SECONDS,
   });
   return sid;
 }
@@ -0,0 +1,219 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import type { CanvasState, ChatMessage, ImageVersion, ProjectState, SessionState, ThreadState, UsageRecord } from "@/lib/store";
+
+// Storage backend behind lib/store.ts. The store keeps a live SessionState per
+// session in memory and hands the whole state to the backend after each change.
+export type SessionStorage = {
+  load(sessionId: string): SessionState | undefined;
+  save(sessionId: string, state: SessionState): void;
+  remove(sessionId: string): void;
+  // Ids of sessions last saved before `before` (epoch ms)
+  listStale(before: number): string[];
+};
+
+export const DATA_DIR = process.env.LC_DATA_DIR || path.join(process.cwd(), ".data");
+
+// In-memory backend: state is lost on restart. Useful for tests and throwaway dev servers.
+export function createMemoryStorage(): SessionStorage {
+  const sessions = new Map<string, { state: SessionState; savedAt: number }>();
+  return {
+    load: (sessionId) => sessions.get(sessionId)?.state,
+    save: (sessionId, state) => {
+      sessions.set(sessionId, { state, savedAt: Date.now() });
+    },
+    remove: (sessionId) => {
+      sessions.delete(sessionId);
+    },
+    listStale: (before) => [...sessions].filter(([, s]) => s.savedAt < before).map(([id]) => id),
+  };
+}
+
+// On-disk layout:
+//   <dir>/<session>/session.json     projects with their threads (messages, image references) and canvas graph, usage ledger
+//   <dir>/<session>/images/<sha1>    last image buffers, content-addressed so clones share a file
+type StoredThread = {
+  messages: ChatMessage[];
+  lastImageFile?: string;
+  lastImageMime?: string;
+  versions?: ImageVersion[];
+  currentVersionId?: string;
+};
+
+type StoredProject = {
+  name: string;
+  createdAt: number;
+  threads: Record<string, StoredThread>;
+  canvas?: CanvasState;
+};
+
+type StoredSession =
+  | { version: 2; sessionId?: string; activeProject: string; projects: Record<string, StoredProject>; usage?: UsageRecord[] }
+  // Written before projects existed; loaded as a single default project
+  | { version: 1; threads: Record<string, StoredThread>; canvas?: CanvasState };
+
+// Sessions saved before the usage ledger existed start it from the messages they still have
+function ledgerOf(projects: Map<string, ProjectState>): UsageRecord[] {
+  const ledger: UsageRecord[] = [];
+  for (const p of projects.values()) {
+    for (const t of p.threads.values()) {
+      for (const m of t.messages) if (m.usage) ledger.push({ id: m.id, usage: m.usage });
+    }
+  }
+  return ledger;
+}
+
+// Session ids come from a cookie, so never use them as a path segment verbatim
+export function safeSegment(id: string): string {
+  if (/^[A-Za-z0-9_-]{1,128}$/.test(id)) return id;
+  return createHash("sha256").update(id).digest("hex");
+}
+
+function writeFileAtomic(file: string, data: string | Buffer) {
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, data);
+  fs.renameSync(tmp, file);
+}
+
+export function createFileStorage(dir = path.join(DATA_DIR, "sessions")): SessionStorage {
+  function sessionDir(sessionId: string) {
+    return path.join(dir, safeSegment(sessionId));
+  }
+
+  return {
+    load(sessionId) {
+      const base = sessionDir(sessionId);
+      let raw: string;
+      try {
+        raw = fs.readFileSync(path.join(base, "session.json"), "utf8");
+      } catch {
+        return undefined;
+      }
+
+      let stored: StoredSession;
+      try {
+        stored = JSON.parse(raw);
+      } catch (e) {
+        console.error(`❌ Corrupt session file for ${sessionId}, starting fresh:`, e);
+        return undefined;
+      }
+
+      const readThreads = (entries: Record<string, StoredThread>) => {
+        const threads = new Map<string, ThreadState>();
+        for (const [threadId, t] of Object.entries(entries || {})) {
+          let lastImage: Buffer | undefined;
+          if (t.lastImageFile) {
+            try {
+              lastImage = fs.readFileSync(path.join(base, "images", path.basename(t.lastImageFile)));
+            } catch {
+              console.warn(`⚠️ Missing image ${t.lastImageFile} for thread ${threadId}`);
+            }
+          }
+          threads.set(threadId, {
+            messages: Array.isArray(t.messages) ? t.messages : [],
+            lastImage,
+            lastImageMime: lastImage ? t.lastImageMime : undefined,
+            versions: Array.isArray(t.versions) ? t.versions : [],
+            currentVersionId: t.currentVersionId,
+          });
+        }
+        return threads;
+      };
+
+      if (stored.version !== 2) {
+        const project: ProjectState = {
+          id: "default",
+          name: "Untitled project",
+          createdAt: Date.now(),
+          threads: readThreads(stored.threads),
+          canvas: stored.canvas,
+        };
+        const projects = new Map([[project.id, project]]);
+        return { projects, activeProject: project.id, usage: ledgerOf(projects) };
+      }
+
+      const projects = new Map<string, ProjectState>();
+      for (const [id, p] of Object.entries(stored.projects || {})) {
+        projects.set(id, { id, name: p.name, createdAt: p.createdAt, threads: readThreads(p.threads), canvas: p.canvas });
+      }
+      if (projects.size === 0) return undefined;
+      const activeProject = projects.has(stored.activeProject) ? stored.activeProject : projects.keys().next().value as string;
+      return { projects, activeProject, usage: Array.isArray(stored.usage) ? stored.usage : ledgerOf(projects) };
+    },
+
+    save(sessionId, state) {
+      const base = sessionDir(sessionId);
+      const imagesDir = path.join(base, "images");
+      fs.mkdirSync(imagesDir, { recursive: true });
+
+      const referenced = new Set<string>();
+      const writeThreads = (threads: Map<string, ThreadState>) => {
+        const out: Record<string, StoredThread> = {};
+        for (const [threadId, t] of threads) {
+          const entry: StoredThread = {
+            messages: t.messages,
+            versions: t.versions,
+            currentVersionId: t.currentVersionId,
+          };
+          if (t.lastImage) {
+            const name = createHash("sha1").update(t.lastImage).digest("hex");
+            const file = path.join(imagesDir, name);
+            if (!fs.existsSync(file)) writeFileAtomic(file, t.lastImage);
+            referenced.add(name);
+            entry.lastImageFile = name;
+            entry.lastImageMime = t.lastImageMime;
+          }
+          out[threadId] = entry;
+        }
+        return out;
+      };
+
+      const projects: Record<string, StoredProject> = {};
+      for (const [id, p] of state.projects) {
+        projects[id] = { name: p.name, createdAt: p.createdAt, threads: writeThreads(p.threads), canvas: p.canvas };
+      }
+
+      const stored: StoredSession = { version: 2, sessionId, activeProject: state.activeProject, projects, usage: state.usage };
+      writeFileAtomic(path.join(base, "session.json"), JSON.stringify(stored));
+
+      // Drop image buffers no thread points at anymore
+      for (const name of fs.readdirSync(imagesDir)) {
+        if (!referenced.has(name)) {
+          try {
+            fs.unlinkSync(path.join(imagesDir, name));
+          } catch {}
+        }
+      }
+    },
+
+    remove(sessionId) {
+      fs.rmSync(sessionDir(sessionId), { recursive: true, force: true });
+    },
+
+    listStale(before) {
+      let names: string[];
+      try {
+        names = fs.readdirSync(dir);
+      } catch {
+        return [];
+      }
+      const ids: string[] = [];
+      for (const name of names) {
+        const file = path.join(dir, name, "session.json");
+        try {
+          if (fs.statSync(file).mtimeMs >= before) continue;
+          // Directory names may be hashes of the real id, which is recorded in the file
+          const stored: StoredSession = JSON.parse(fs.readFileSync(file, "utf8"));
+          ids.push(stored.version === 2 && stored.sessionId ? stored.sessionId : name);
+        } catch {}
+      }
+      return ids;
+    },
+  };
+}
+
+// LC_STORE=memory keeps everything in process memory; anything else persists to disk.
+export function createDefaultStorage(): SessionStorage {
+  return process.env.LC_STORE === "memory" ? createMemoryStorage() : createFileStorage();
+}
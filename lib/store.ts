@@ -1,9 +1,35 @@
+import { createDefaultStorage, type SessionStorage } from "@/lib/storage";
+import type { ResponseDetails } from "@/lib/gemini";
+import type { CallUsage } from "@/lib/usage";
+
 export type ChatMessage = {
   id: string;
   role: "user" | "assistant";
   text?: string;
-  imageUrl?: string; // relative URL under /outputs
-  videoUrl?: string; // relative URL under /outputs
+  originalPrompt?: string; // user messages: what was typed before the prompt enhancer rewrote it into `text`
+  imageUrl?: string; // /api/assets/<id> (older messages: /outputs/...)
+  videoUrl?: string; // /api/assets/<id> (older messages: /outputs/...)
+  versionId?: string; // image version this message produced
+  candidates?: ImageCandidate[]; // all images of a multi-candidate generation, in order
+  details?: Omit<ResponseDetails, "text" | "usage">; // finish reason and safety ratings of the reply (the model's text is `text`)
+  usage?: CallUsage; // upstream calls, tokens, video seconds and latency behind this reply
+  cached?: boolean; // every image of the reply came from the generation cache (no upstream call)
+  timestamp: number;
+};
+
+// One of several images generated for the same prompt; each is also stored as a version
+export type ImageCandidate = {
+  versionId: string;
+  imageUrl: string;
+};
+
+// One generated image in a thread's history. Versions are never dropped;
+// undo/redo/revert only move the thread's current pointer.
+export type ImageVersion = {
+  id: string;
+  imageUrl: string;
+  mimeType: string;
+  prompt: string;
   timestamp: number;
 };
 
@@ -11,30 +37,217 @@ export type ThreadState = {
   messages: ChatMessage[];
   lastImage?: Buffer;
   lastImageMime?: string;
+  versions: ImageVersion[];
+  currentVersionId?: string;
 };
 
-export type SessionState = {
+// Canvas graph as laid out in components/Canvas.tsx; node ids are thread ids
+export type CanvasNode = {
+  id: string;
+  name: string;
+  pos: { x: number; y: number };
+  size?: { width: number; height: number };
+};
+
+export type CanvasState = {
+  nodes: CanvasNode[];
+  edges: { from: string; to: string }[];
+  active?: string;
+  updatedAt: number;
+};
+
+// A named workspace inside a session with its own threads, canvas and outputs
+export type ProjectState = {
+  id: string;
+  name: string;
+  createdAt: number;
   threads: Map<string, ThreadState>;
+  canvas?: CanvasState;
+};
+
+// Usage of one message, copied into the session's ledger when the message is recorded
+export type UsageRecord = { id: string; usage: CallUsage };
+
+export type SessionState = {
+  projects: Map<string, ProjectState>;
+  activeProject: string;
+  usage: UsageRecord[]; // every recorded reply, including those of threads and projects deleted since
 };
 
+export const DEFAULT_PROJECT_ID = "default";
+
+// Live sessions are cached here; every mutation is written through to the backend
 const store = new Map<string, SessionState>();
+let storage: SessionStorage = createDefaultStorage();
+
+// Swap the backend (e.g. createMemoryStorage() in tests). Clears the cache.
+export function setStorage(next: SessionStorage) {
+  storage = next;
+  store.clear();
+}
+
+function persist(sessionId: string) {
+  const s = store.get(sessionId);
+  if (!s) return;
+  try {
+    storage.save(sessionId, s);
+  } catch (e) {
+    console.error(`❌ Failed to persist session ${sessionId}:`, e);
+  }
+}
 
 export function getSession(sessionId: string): SessionState {
   let s = store.get(sessionId);
   if (!s) {
-    s = { threads: new Map() };
+    s = storage.load(sessionId) ?? {
+      projects: new Map([[DEFAULT_PROJECT_ID, newProject(DEFAULT_PROJECT_ID, "Untitled project")]]),
+      activeProject: DEFAULT_PROJECT_ID,
+      usage: [],
+    };
     store.set(sessionId, s);
   }
   return s;
 }
 
-export function getThread(sessionId: string, threadId = "default"): ThreadState {
+// Drop a session entirely (expired sessions, see lib/gc.ts)
+export function evictSession(sessionId: string) {
+  store.delete(sessionId);
+  storage.remove(sessionId);
+}
+
+export function listStaleSessions(before: number): string[] {
+  return storage.listStale(before);
+}
+
+// Every image/video URL any message or version in the session (or one project) still points at
+export function getReferencedUrls(sessionId: string, projectId?: string): Set<string> {
+  const urls = new Set<string>();
+  const projects = projectId ? [getProject(sessionId, projectId)] : getSession(sessionId).projects.values();
+  for (const project of projects) {
+    for (const t of project.threads.values()) {
+      for (const m of t.messages) {
+        if (m.imageUrl) urls.add(m.imageUrl);
+        if (m.videoUrl) urls.add(m.videoUrl);
+        for (const c of m.candidates ?? []) urls.add(c.imageUrl);
+      }
+      for (const v of t.versions) urls.add(v.imageUrl);
+    }
+  }
+  return urls;
+}
+
+function newProject(id: string, name: string): ProjectState {
+  return { id, name, createdAt: Date.now(), threads: new Map() };
+}
+
+function createProjectId(): string {
+  return `p-${Date.now()}-${Math.floor(Math.random() * 1e6)}`;
+}
+
+export function getProject(sessionId: string, projectId: string): ProjectState {
+  const p = getSession(sessionId).projects.get(projectId);
+  if (!p) throw new Error(`Unknown project ${projectId}`);
+  return p;
+}
+
+// Project a request should act on: the requested one if it exists, otherwise the
+// session's active project. Returns null when an explicitly requested project is gone.
+export function resolveProjectId(sessionId: string, requested?: string | null): string | null {
+  const session = getSession(sessionId);
+  if (requested) return session.projects.has(requested) ? requested : null;
+  return session.activeProject;
+}
+
+export function listProjects(sessionId: string): { projects: { id: string; name: string; createdAt: number; threadCount: number }[]; active: string } {
+  const session = getSession(sessionId);
+  const projects = [...session.projects.values()].map((p) => ({
+    id: p.id,
+    name: p.name,
+    createdAt: p.createdAt,
+    threadCount: p.threads.size,
+  }));
+  return { projects, active: session.activeProject };
+}
+
+export function createProject(sessionId: string, name: string): ProjectState {
   const session = getSession(sessionId);
-  let t = session.threads.get(threadId);
+  const project = newProject(createProjectId(), name);
+  session.projects.set(project.id, project);
+  persist(sessionId);
+  return project;
+}
+
+export function renameProject(sessionId: string, projectId: string, name: string) {
+  getProject(sessionId, projectId).name = name;
+  persist(sessionId);
+}
+
+export function setActiveProject(sessionId: string, projectId: string) {
+  const session = getSession(sessionId);
+  getProject(sessionId, projectId);
+  session.activeProject = projectId;
+  persist(sessionId);
+}
+
+// Deep-copies threads and canvas. Image/video URLs still point at the source
+// project's assets until rewriteProjectUrls() is called with the copies.
+export function duplicateProject(sessionId: string, sourceId: string, name: string): ProjectState {
+  const session = getSession(sessionId);
+  const source = getProject(sessionId, sourceId);
+  const copy = newProject(createProjectId(), name);
+  for (const [threadId, t] of source.threads) {
+    copy.threads.set(threadId, {
+      messages: t.messages.map((m) => ({ ...m })),
+      lastImage: t.lastImage,
+      lastImageMime: t.lastImageMime,
+      versions: t.versions.map((v) => ({ ...v })),
+      currentVersionId: t.currentVersionId,
+    });
+  }
+  if (source.canvas) copy.canvas = structuredClone(source.canvas);
+  session.projects.set(copy.id, copy);
+  persist(sessionId);
+  return copy;
+}
+
+export function rewriteProjectUrls(sessionId: string, projectId: string, rewrite: (url: string) => string) {
+  const project = getProject(sessionId, projectId);
+  for (const t of project.threads.values()) {
+    for (const m of t.messages) {
+      if (m.imageUrl) m.imageUrl = rewrite(m.imageUrl);
+      if (m.videoUrl) m.videoUrl = rewrite(m.videoUrl);
+      if (m.candidates) m.candidates = m.candidates.map((c) => ({ ...c, imageUrl: rewrite(c.imageUrl) }));
+    }
+    for (const v of t.versions) v.imageUrl = rewrite(v.imageUrl);
+  }
+  persist(sessionId);
+}
+
+// The last remaining project can't be deleted; deleting the active one activates another.
+export function deleteProject(sessionId: string, projectId: string): boolean {
+  const session = getSession(sessionId);
+  if (!session.projects.has(projectId) || session.projects.size <= 1) return false;
+  session.projects.delete(projectId);
+  if (session.activeProject === projectId) {
+    session.activeProject = session.projects.keys().next().value as string;
+  }
+  persist(sessionId);
+  return true;
+}
+
+// Unlike getThread, never creates the thread (or throws for a deleted project)
+export function hasThread(sessionId: string, projectId: string, threadId: string): boolean {
+  return getSession(sessionId).projects.get(projectId)?.threads.has(threadId) ?? false;
+}
+
+export function getThread(sessionId: string, projectId: string, threadId = "default"): ThreadState {
+  const project = getProject(sessionId, projectId);
+  let t = project.threads.get(threadId);
   if (!t) {
     console.warn(`⚠️ Thread ${threadId} not found, creating empty thread`);
-    t = { messages: [], lastImage: undefined, lastImageMime: undefined };
-    session.threads.set(threadId, t);
+    t = { messages: [], lastImage: undefined, lastImageMime: undefined, versions: [] };
+    project.threads.set(threadId, t);
+    persist(sessionId);
   } else {
     console.log(`📋 Retrieved existing thread ${threadId}:`, {
       hasLastImage: !!t.lastImage,
@@ -46,23 +259,57 @@ export function getThread(sessionId: string, threadId = "default"): ThreadState
   return t;
 }
 
-export function setLastImage(sessionId: string, threadId: string, buf: Buffer, mime: string) {
-  const t = getThread(sessionId, threadId);
+export function setLastImage(sessionId: string, projectId: string, threadId: string, buf: Buffer, mime: string) {
+  const t = getThread(sessionId, projectId, threadId);
   t.lastImage = buf;
   t.lastImageMime = mime;
+  persist(sessionId);
   console.log(`💾 Stored image in thread ${threadId}:`, {
     imageSize: buf.length,
     mimeType: mime
   });
 }
 
-export function addMessage(sessionId: string, threadId: string, msg: ChatMessage) {
-  const t = getThread(sessionId, threadId);
+export function addMessage(sessionId: string, projectId: string, threadId: string, msg: ChatMessage) {
+  const t = getThread(sessionId, projectId, threadId);
   t.messages.push(msg);
+  if (msg.usage) getSession(sessionId).usage.push({ id: msg.id, usage: msg.usage });
+  persist(sessionId);
+}
+
+export function addVersion(sessionId: string, projectId: string, threadId: string, version: ImageVersion, buf: Buffer) {
+  const t = getThread(sessionId, projectId, threadId);
+  t.versions.push(version);
+  t.currentVersionId = version.id;
+  t.lastImage = buf;
+  t.lastImageMime = version.mimeType;
+  persist(sessionId);
+}
+
+// Make an existing version the base for the next edit. `buf` is that version's image.
+export function selectVersion(sessionId: string, projectId: string, threadId: string, versionId: string, buf: Buffer): ImageVersion {
+  const t = getThread(sessionId, projectId, threadId);
+  const version = t.versions.find((v) => v.id === versionId);
+  if (!version) throw new Error(`Unknown version ${versionId}`);
+  t.currentVersionId = version.id;
+  t.lastImage = buf;
+  t.lastImageMime = version.mimeType;
+  persist(sessionId);
+  console.log(`⏪ Thread ${threadId} now based on version ${versionId}`);
+  return version;
+}
+
+export function getVersions(sessionId: string, projectId: string, threadId: string): { versions: ImageVersion[]; currentVersionId?: string } {
+  const t = getThread(sessionId, projectId, threadId);
+  return { versions: t.versions, currentVersionId: t.currentVersionId };
 }
 
-export function getMessages(sessionId: string, threadId: string): ChatMessage[] {
-  const thread = getThread(sessionId, threadId);
+export function createVersionId(): string {
+  return `v-${Date.now()}-${Math.floor(Math.random() * 1e6)}`;
+}
+
+export function getMessages(sessionId: string, projectId: string, threadId: string): ChatMessage[] {
+  const thread = getThread(sessionId, projectId, threadId);
   console.log(`📋 Getting messages for thread ${threadId}:`, {
     messageCount: thread.messages.length,
     hasLastImage: !!thread.lastImage,
@@ -71,9 +318,17 @@ export function getMessages(sessionId: string, threadId: string): ChatMessage[]
   return thread.messages;
 }
 
-export function cloneThread(sessionId: string, sourceThread = "default", newThreadId?: string): string {
+// `baseVersion` starts the clone from another of the source's versions (e.g. a forked candidate)
+// instead of its current one; `image` is that version's image.
+export function cloneThread(
+  sessionId: string,
+  projectId: string,
+  sourceThread = "default",
+  newThreadId?: string,
+  baseVersion?: { id: string; image: Buffer }
+): string {
   const sid = sessionId;
-  const source = getThread(sid, sourceThread);
+  const source = getThread(sid, projectId, sourceThread);
   const id = newThreadId || `t-${Date.now()}-${Math.floor(Math.random() * 1e6)}`;
   
   // Debug logging to verify source thread state
@@ -85,16 +340,24 @@ export function cloneThread(sessionId: string, sourceThread = "default", newThre
   });
   
   // Find the latest image/video message from the source thread
-  const latestImageMessage = source.messages
-    .filter(m => m.imageUrl || m.videoUrl)
-    .slice(-1)[0];
+  const forkedVersion = baseVersion && source.versions.find((v) => v.id === baseVersion.id);
+  const latestImageMessage = forkedVersion
+    ? { imageUrl: forkedVersion.imageUrl, videoUrl: undefined }
+    : source.messages.filter(m => m.imageUrl || m.videoUrl).slice(-1)[0];
   
   const cloned: ThreadState = {
     messages: [...source.messages],
     // Use slice() instead of Buffer.from() for more reliable copying
     lastImage: source.lastImage ? source.lastImage.slice() : undefined,
     lastImageMime: source.lastImageMime,
+    versions: [...source.versions],
+    currentVersionId: source.currentVersionId,
   };
+  if (forkedVersion && baseVersion) {
+    cloned.lastImage = baseVersion.image;
+    cloned.lastImageMime = forkedVersion.mimeType;
+    cloned.currentVersionId = forkedVersion.id;
+  }
   
   // If there's a latest image/video message, create an inherited message to display it
   if (latestImageMessage) {
@@ -113,8 +376,9 @@ export function cloneThread(sessionId: string, sourceThread = "default", newThre
     });
   }
   
-  const session = getSession(sid);
-  session.threads.set(id, cloned);
+  const project = getProject(sid, projectId);
+  project.threads.set(id, cloned);
+  persist(sid);
   
   // Verify the cloned thread has the image
   console.log(`✅ Cloned thread ${id} created:`, {
@@ -127,14 +391,28 @@ export function cloneThread(sessionId: string, sourceThread = "default", newThre
   return id;
 }
 
-export function createThread(sessionId: string, threadId?: string): string {
+export function getCanvas(sessionId: string, projectId: string): CanvasState | undefined {
+  return getProject(sessionId, projectId).canvas;
+}
+
+export function saveCanvas(sessionId: string, projectId: string, canvas: CanvasState) {
+  getProject(sessionId, projectId).canvas = canvas;
+  persist(sessionId);
+}
+
+export function createThread(sessionId: string, projectId: string, threadId?: string): string {
   const id = threadId || `t-${Date.now()}-${Math.floor(Math.random() * 1e6)}`;
-  const session = getSession(sessionId);
-  if (!session.threads.has(id)) session.threads.set(id, { messages: [] });
+  const project = getProject(sessionId, projectId);
+  if (!project.threads.has(id)) {
+    project.threads.set(id, { messages: [], versions: [] });
+    persist(sessionId);
+  }
   return id;
 }
 
-export function deleteThread(sessionId: string, threadId: string): boolean {
-  const session = getSession(sessionId);
-  return session.threads.delete(threadId);
+export function deleteThread(sessionId: string, projectId: string, threadId: string): boolean {
+  const project = getProject(sessionId, projectId);
+  const ok = project.threads.delete(threadId);
+  if (ok) persist(sessionId);
+  return ok;
 }
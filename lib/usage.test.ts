@@ -0,0 +1,46 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Storage paths are read when the modules load, so they are imported after the environment is set
+process.env.LC_STORE = "memory";
+process.env.LC_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "lc-usage-test-"));
+let usage: typeof import("@/lib/usage");
+let store: typeof import("@/lib/store");
+before(async () => {
+  usage = await import("@/lib/usage");
+  store = await import("@/lib/store");
+});
+after(() => fs.rmSync(process.env.LC_DATA_DIR!, { recursive: true, force: true }));
+
+const reply = (id: string, promptTokens: number) => ({
+  id,
+  role: "assistant" as const,
+  usage: { modelId: "gemini-2.5-flash-image-preview", calls: 1, promptTokens, outputTokens: 0, latencyMs: 10 },
+  timestamp: Date.now(),
+});
+
+test("session totals keep the usage of deleted threads and projects", () => {
+  const project = store.createProject("s1", "Logos");
+  store.addMessage("s1", project.id, "default", reply("m1", 100));
+  const thread = store.createThread("s1", project.id);
+  store.addMessage("s1", project.id, thread, reply("m2", 200));
+  const fork = store.cloneThread("s1", project.id, thread);
+  store.duplicateProject("s1", project.id, "Copy");
+
+  let totals = usage.getUsage("s1", project.id, thread);
+  assert.equal(totals.session.promptTokens, 300);
+  assert.equal(totals.project.promptTokens, 300);
+  assert.equal(totals.thread?.promptTokens, 200);
+
+  store.deleteThread("s1", project.id, thread);
+  store.deleteThread("s1", project.id, fork);
+  totals = usage.getUsage("s1", project.id);
+  assert.equal(totals.session.promptTokens, 300);
+  assert.equal(totals.project.promptTokens, 100);
+
+  store.deleteProject("s1", project.id);
+  assert.equal(usage.getUsage("s1", store.DEFAULT_PROJECT_ID).session.promptTokens, 300);
+});
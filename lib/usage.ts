@@ -0,0 +1,136 @@
+import { getProject, getSession, type ChatMessage, type UsageRecord } from "@/lib/store";
+import type { TokenUsage } from "@/lib/gemini";
+
+// Upstream usage of one reply: every call made for it (candidates, and retries that got an answer)
+export type CallUsage = {
+  modelId: string;
+  calls: number;
+  promptTokens?: number;
+  outputTokens?: number;
+  videoSeconds?: number;
+  latencyMs: number; // summed wall time of the calls (video: until the operation finished)
+};
+
+// USD list prices. Token prices are per million tokens; video is billed per generated second.
+export type ModelPrice = {
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+  perVideoSecond?: number;
+};
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  videoSeconds: number;
+  latencyMs: number;
+  cost: number; // estimate from the price table; models without a price count as 0
+};
+
+export type UsageSummary = UsageTotals & {
+  byModel: Record<string, UsageTotals>;
+  unpriced: string[]; // models used that have no entry in the price table
+};
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gemini-2.5-flash-image-preview": { inputPerMillion: 0.3, outputPerMillion: 30 },
+  "veo-3.0-generate-preview": { perVideoSecond: 0.75 },
+  "gemini-2.5-flash": { inputPerMillion: 0.3, outputPerMillion: 2.5 }, // prompt enhancer (GEMINI_TEXT_MODEL)
+  "gpt-5": { inputPerMillion: 5, outputPerMillion: 40 }, // billed as OPENAI_IMAGE_MODEL (gpt-image-1)
+  "mock-image": {},
+};
+
+// LC_PRICES='{"model-id": {"inputPerMillion": 0.3, ...}}' adds or replaces entries
+function loadPrices(): Record<string, ModelPrice> {
+  const raw = process.env.LC_PRICES;
+  if (!raw) return DEFAULT_PRICES;
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed !== "object" || parsed === null) throw new Error("expected an object");
+    return { ...DEFAULT_PRICES, ...parsed };
+  } catch (e) {
+    console.warn("⚠️ Ignoring invalid LC_PRICES:", e);
+    return DEFAULT_PRICES;
+  }
+}
+
+export const PRICES = loadPrices();
+
+export function usageOfCall(modelId: string, tokens: TokenUsage | undefined, latencyMs: number): CallUsage {
+  return { modelId, calls: 1, promptTokens: tokens?.promptTokens, outputTokens: tokens?.outputTokens, latencyMs };
+}
+
+// Add up the calls of one reply (all for the same model)
+export function mergeUsage(calls: CallUsage[]): CallUsage | undefined {
+  if (calls.length === 0) return undefined;
+  const sum = (key: "promptTokens" | "outputTokens" | "videoSeconds") =>
+    calls.some((c) => c[key] !== undefined) ? calls.reduce((n, c) => n + (c[key] ?? 0), 0) : undefined;
+  return {
+    modelId: calls[0].modelId,
+    calls: calls.reduce((n, c) => n + c.calls, 0),
+    promptTokens: sum("promptTokens"),
+    outputTokens: sum("outputTokens"),
+    videoSeconds: sum("videoSeconds"),
+    latencyMs: calls.reduce((n, c) => n + c.latencyMs, 0),
+  };
+}
+
+// Undefined when the model has no price entry
+export function estimateCost(usage: CallUsage): number | undefined {
+  const price = PRICES[usage.modelId];
+  if (!price) return undefined;
+  return (
+    ((usage.promptTokens ?? 0) * (price.inputPerMillion ?? 0)) / 1e6 +
+    ((usage.outputTokens ?? 0) * (price.outputPerMillion ?? 0)) / 1e6 +
+    (usage.videoSeconds ?? 0) * (price.perVideoSecond ?? 0)
+  );
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, outputTokens: 0, videoSeconds: 0, latencyMs: 0, cost: 0 };
+}
+
+function addTo(totals: UsageTotals, usage: CallUsage, cost: number) {
+  totals.calls += usage.calls;
+  totals.promptTokens += usage.promptTokens ?? 0;
+  totals.outputTokens += usage.outputTokens ?? 0;
+  totals.videoSeconds += usage.videoSeconds ?? 0;
+  totals.latencyMs += usage.latencyMs;
+  totals.cost += cost;
+}
+
+// Roll up the usage of messages or ledger records. Cloned threads and duplicated projects keep
+// the message ids of their source, so each message is counted once.
+export function summarizeUsage(messages: Iterable<ChatMessage | UsageRecord>): UsageSummary {
+  const summary: UsageSummary = { ...emptyTotals(), byModel: {}, unpriced: [] };
+  const seen = new Set<string>();
+  for (const m of messages) {
+    if (!m.usage || seen.has(m.id)) continue;
+    seen.add(m.id);
+    const cost = estimateCost(m.usage);
+    if (cost === undefined && !summary.unpriced.includes(m.usage.modelId)) summary.unpriced.push(m.usage.modelId);
+    addTo(summary, m.usage, cost ?? 0);
+    addTo((summary.byModel[m.usage.modelId] ??= emptyTotals()), m.usage, cost ?? 0);
+  }
+  return summary;
+}
+
+function* projectMessages(sessionId: string, projectId: string): Iterable<ChatMessage> {
+  for (const t of getProject(sessionId, projectId).threads.values()) yield* t.messages;
+}
+
+// Usage of the whole session, one project and optionally one thread of it. The session total
+// comes from its ledger and keeps counting deleted threads and projects; the others only count
+// the messages they still have.
+export function getUsage(
+  sessionId: string,
+  projectId: string,
+  threadId?: string
+): { session: UsageSummary; project: UsageSummary; thread?: UsageSummary } {
+  const thread = threadId ? getProject(sessionId, projectId).threads.get(threadId) : undefined;
+  return {
+    session: summarizeUsage(getSession(sessionId).usage),
+    project: summarizeUsage(projectMessages(sessionId, projectId)),
+    thread: threadId ? summarizeUsage(thread?.messages ?? []) : undefined,
+  };
+}
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import { vectorize } from "@/lib/vectorize";
+
+const WIDTH = 512;
+const HEIGHT = 384;
+
+const render = (shapes: string) =>
+  sharp(
+    Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}"><rect width="100%" height="100%" fill="#ffffff"/>${shapes}</svg>`
+    )
+  )
+    .png()
+    .toBuffer();
+
+// Share of pixels whose color differs clearly between the source and the rasterized SVG
+async function mismatch(source: Buffer, svg: string): Promise<number> {
+  const a = await sharp(source).removeAlpha().raw().toBuffer();
+  const b = await sharp(Buffer.from(svg)).resize(WIDTH, HEIGHT).flatten({ background: "#ffffff" }).removeAlpha().raw().toBuffer();
+  let wrong = 0;
+  for (let p = 0; p < a.length; p += 3) {
+    if (Math.max(Math.abs(a[p] - b[p]), Math.abs(a[p + 1] - b[p + 1]), Math.abs(a[p + 2] - b[p + 2])) > 64) wrong++;
+  }
+  return wrong / (a.length / 3);
+}
+
+test("rectangles keep square corners at full smoothing", async () => {
+  const source = await render(`<rect x="96" y="64" width="320" height="224" fill="#1f4e9c"/>`);
+  for (const smoothing of [0, 0.5, 1]) {
+    const share = await mismatch(source, await vectorize(source, { colors: 2, detail: 0.5, smoothing }));
+    assert.ok(share < 0.01, `smoothing ${smoothing}: ${(share * 100).toFixed(2)}% of pixels differ`);
+  }
+});
+
+test("curved shapes stay close to the source", async () => {
+  const source = await render(`<circle cx="256" cy="192" r="150" fill="#c0392b"/><rect x="176" y="160" width="160" height="64" fill="#ffffff"/>`);
+  const share = await mismatch(source, await vectorize(source, { colors: 3, detail: 0.5, smoothing: 1 }));
+  assert.ok(share < 0.02, `${(share * 100).toFixed(2)}% of pixels differ`);
+});
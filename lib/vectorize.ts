@@ -0,0 +1,295 @@
+import sharp from "sharp";
+
+// Raster-to-SVG tracing for flat, logo-style images, without native dependencies:
+//  1. downscale to a working grid and quantize the opaque pixels to a small palette (k-means)
+//  2. merge specks smaller than the detail allows into their most common neighbor
+//  3. per palette color, trace the pixel-edge contours of its region and simplify them
+//     (Douglas-Peucker), then round the gentle corners into quadratic curves
+// Colors are stacked from the largest area down and each layer also covers the smaller ones
+// painted on top of it, so neighbouring shapes overlap instead of leaving hairline gaps.
+
+export type VectorizeOptions = {
+  colors: number; // palette size
+  detail: number; // 0–1: working resolution, smallest kept region and path tolerance
+  smoothing: number; // 0–1: 0 keeps straight segments, 1 rounds every corner turning less than 90°
+};
+
+export const DEFAULT_VECTORIZE_OPTIONS: VectorizeOptions = { colors: 6, detail: 0.5, smoothing: 0.5 };
+export const MIN_COLORS = 2;
+export const MAX_COLORS = 16;
+
+// Pixels at least this opaque are traced; the rest stay transparent in the SVG
+const ALPHA_THRESHOLD = 128;
+const SAMPLE_SIZE = 20_000;
+const KMEANS_ITERATIONS = 8;
+// Right angles and sharper corners always stay corners
+const MAX_CURVE_TURN = Math.PI / 2;
+// Rounded corners bend within this distance of the vertex (working grid px, at most half a segment)
+const CURVE_OFFSET = 3;
+
+type Rgb = [number, number, number];
+type Point = [number, number];
+
+const colorDistance = (a: Rgb, b: Rgb) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+function closest(palette: Rgb[], c: Rgb): number {
+  let best = 0;
+  for (let j = 1; j < palette.length; j++) {
+    if (colorDistance(palette[j], c) < colorDistance(palette[best], c)) best = j;
+  }
+  return best;
+}
+
+// k-means on a sample of the opaque pixels, seeded with farthest-point picks so small but
+// distinct colors (a thin outline, an accent) still get an entry
+function buildPalette(pixels: Buffer, opaque: number[], k: number): Rgb[] {
+  const step = Math.max(1, Math.floor(opaque.length / SAMPLE_SIZE));
+  const sample: Rgb[] = [];
+  for (let i = 0; i < opaque.length; i += step) {
+    const p = opaque[i] * 4;
+    sample.push([pixels[p], pixels[p + 1], pixels[p + 2]]);
+  }
+
+  const mean = sample.reduce<Rgb>((m, c) => [m[0] + c[0], m[1] + c[1], m[2] + c[2]], [0, 0, 0]).map((v) => v / sample.length) as Rgb;
+  let palette: Rgb[] = [mean];
+  const nearest = sample.map((c) => colorDistance(c, mean));
+  while (palette.length < k) {
+    let far = 0;
+    for (let i = 1; i < sample.length; i++) if (nearest[i] > nearest[far]) far = i;
+    if (nearest[far] === 0) break; // fewer distinct colors than asked for
+    const pick = sample[far];
+    palette.push([...pick]);
+    for (let i = 0; i < sample.length; i++) nearest[i] = Math.min(nearest[i], colorDistance(sample[i], pick));
+  }
+
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const sums = palette.map(() => [0, 0, 0, 0]);
+    for (const c of sample) {
+      const s = sums[closest(palette, c)];
+      s[0] += c[0];
+      s[1] += c[1];
+      s[2] += c[2];
+      s[3]++;
+    }
+    palette = sums.filter((s) => s[3] > 0).map((s) => [s[0] / s[3], s[1] / s[3], s[2] / s[3]]);
+  }
+  return palette.map((c) => c.map(Math.round) as Rgb);
+}
+
+// Relabel 4-connected regions smaller than `minArea` with their most common neighboring color
+function removeSpeckles(labels: Int16Array, width: number, height: number, minArea: number) {
+  if (minArea <= 1) return;
+  const seen = new Uint8Array(labels.length);
+  const queue = new Int32Array(labels.length);
+  for (let start = 0; start < labels.length; start++) {
+    if (seen[start] || labels[start] < 0) continue;
+    const label = labels[start];
+    const neighbors = new Map<number, number>();
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    seen[start] = 1;
+    while (head < tail) {
+      const i = queue[head++];
+      const x = i % width;
+      for (const n of [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width]) {
+        if (n < 0 || n >= labels.length) continue;
+        if (labels[n] === label) {
+          if (!seen[n]) {
+            seen[n] = 1;
+            queue[tail++] = n;
+          }
+        } else if (labels[n] >= 0) {
+          neighbors.set(labels[n], (neighbors.get(labels[n]) ?? 0) + 1);
+        }
+      }
+    }
+    if (tail >= minArea || neighbors.size === 0) continue;
+    const into = [...neighbors].reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+    for (let j = 0; j < tail; j++) labels[queue[j]] = into;
+  }
+}
+
+// Closed outlines of the mask along pixel edges, clockwise around filled pixels (y down).
+// Where two pixels touch only at a corner the walk turns right, keeping them separate shapes.
+function traceContours(mask: Uint8Array, width: number, height: number): Point[][] {
+  const stride = width + 1;
+  // Up to two outgoing edges per grid vertex, stored as end vertex + 1 (0 = none)
+  const out = new Int32Array(stride * (height + 1) * 2);
+  const filled = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+  const addEdge = (x0: number, y0: number, x1: number, y1: number) => {
+    const v = (y0 * stride + x0) * 2;
+    out[out[v] ? v + 1 : v] = y1 * stride + x1 + 1;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!filled(x, y)) continue;
+      if (!filled(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!filled(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!filled(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!filled(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const loops: Point[][] = [];
+  for (let slot = 0; slot < out.length; slot++) {
+    if (!out[slot]) continue;
+    const start = slot >> 1;
+    const loop: Point[] = [];
+    let v = start;
+    let next = slot;
+    let dx = 0;
+    let dy = 0;
+    do {
+      if (out[next ^ 1] && next !== slot) {
+        // Two ways on: take the right turn
+        const alt = out[next ^ 1] - 1;
+        const ax = (alt % stride) - (v % stride);
+        const ay = Math.floor(alt / stride) - Math.floor(v / stride);
+        if (dx * ay - dy * ax > 0) next ^= 1;
+      }
+      const end = out[next] - 1;
+      out[next] = 0;
+      const ndx = (end % stride) - (v % stride);
+      const ndy = Math.floor(end / stride) - Math.floor(v / stride);
+      if (ndx !== dx || ndy !== dy) loop.push([v % stride, Math.floor(v / stride)]);
+      dx = ndx;
+      dy = ndy;
+      v = end;
+      next = v * 2;
+      if (!out[next]) next++;
+    } while (v !== start && out[next]);
+    if (loop.length >= 3) loops.push(loop);
+  }
+  return loops;
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const len2 = dx * dx + dy * dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2));
+  return Math.hypot(p[0] - a[0] - t * dx, p[1] - a[1] - t * dy);
+}
+
+function simplifyOpen(points: Point[], epsilon: number): Point[] {
+  if (points.length <= 2) return points;
+  let index = 0;
+  let max = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], points[0], points[points.length - 1]);
+    if (d > max) {
+      max = d;
+      index = i;
+    }
+  }
+  if (max <= epsilon) return [points[0], points[points.length - 1]];
+  return [...simplifyOpen(points.slice(0, index + 1), epsilon).slice(0, -1), ...simplifyOpen(points.slice(index), epsilon)];
+}
+
+// Douglas-Peucker on a closed loop, split at the point farthest from the first
+function simplifyLoop(loop: Point[], epsilon: number): Point[] {
+  let far = 0;
+  for (let i = 1; i < loop.length; i++) {
+    if (Math.hypot(loop[i][0] - loop[0][0], loop[i][1] - loop[0][1]) > Math.hypot(loop[far][0] - loop[0][0], loop[far][1] - loop[0][1])) far = i;
+  }
+  const first = simplifyOpen(loop.slice(0, far + 1), epsilon);
+  const second = simplifyOpen([...loop.slice(far), loop[0]], epsilon);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+}
+
+function turnAngle(prev: Point, p: Point, next: Point): number {
+  const a = Math.atan2(p[1] - prev[1], p[0] - prev[0]);
+  const b = Math.atan2(next[1] - p[1], next[0] - p[0]);
+  const d = Math.abs(b - a);
+  return d > Math.PI ? 2 * Math.PI - d : d;
+}
+
+const num = (n: number) => String(Math.round(n * 10) / 10);
+
+// Point `distance` from `from` towards `to`
+function toward(from: Point, to: Point, distance: number): Point {
+  const len = Math.hypot(to[0] - from[0], to[1] - from[1]);
+  return [from[0] + ((to[0] - from[0]) * distance) / len, from[1] + ((to[1] - from[1]) * distance) / len];
+}
+
+// Closed path starting halfway along the last segment. Corners turning less than the threshold
+// (and less than a right angle) are cut by a short curve with the vertex as control point; the
+// rest of each segment stays straight, so shapes keep their outline.
+function loopPath(points: Point[], maxCurveTurn: number): string {
+  const n = points.length;
+  const last = points[n - 1];
+  let d = `M${num((last[0] + points[0][0]) / 2)} ${num((last[1] + points[0][1]) / 2)}`;
+  for (let i = 0; i < n; i++) {
+    const prev = points[(i + n - 1) % n];
+    const p = points[i];
+    const next = points[(i + 1) % n];
+    const turn = turnAngle(prev, p, next);
+    if (turn < MAX_CURVE_TURN && turn <= maxCurveTurn) {
+      const offset = Math.min(
+        CURVE_OFFSET,
+        Math.hypot(p[0] - prev[0], p[1] - prev[1]) / 2,
+        Math.hypot(next[0] - p[0], next[1] - p[1]) / 2
+      );
+      const a = toward(p, prev, offset);
+      const b = toward(p, next, offset);
+      d += `L${num(a[0])} ${num(a[1])}Q${num(p[0])} ${num(p[1])} ${num(b[0])} ${num(b[1])}`;
+    } else {
+      d += `L${num(p[0])} ${num(p[1])}`;
+    }
+  }
+  return d + "Z";
+}
+
+const polygonArea = (points: Point[]) =>
+  Math.abs(points.reduce((a, p, i) => {
+    const q = points[(i + 1) % points.length];
+    return a + p[0] * q[1] - q[0] * p[1];
+  }, 0)) / 2;
+
+const hex = (c: Rgb) => `#${c.map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+
+export async function vectorize(input: Buffer, options: VectorizeOptions = DEFAULT_VECTORIZE_OPTIONS): Promise<string> {
+  const colors = Math.min(MAX_COLORS, Math.max(MIN_COLORS, Math.round(options.colors)));
+  const detail = Math.min(1, Math.max(0, options.detail));
+  const smoothing = Math.min(1, Math.max(0, options.smoothing));
+
+  const meta = await sharp(input, { limitInputPixels: false }).metadata();
+  const side = Math.round(160 + detail * 352);
+  const { data, info } = await sharp(input, { limitInputPixels: false })
+    .resize(side, side, { fit: "inside", withoutEnlargement: true })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  const opaque: number[] = [];
+  for (let i = 0; i < width * height; i++) if (data[i * 4 + 3] >= ALPHA_THRESHOLD) opaque.push(i);
+  const svgOpen = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${meta.width ?? width}" height="${meta.height ?? height}">`;
+  if (opaque.length === 0) return `${svgOpen}</svg>\n`;
+
+  const palette = buildPalette(data, opaque, colors);
+  const labels = new Int16Array(width * height).fill(-1);
+  for (const i of opaque) labels[i] = closest(palette, [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]]);
+  removeSpeckles(labels, width, height, Math.round(width * height * 0.002 * (1 - detail) ** 2));
+
+  const areas = palette.map(() => 0);
+  for (const l of labels) if (l >= 0) areas[l]++;
+  const order = palette.map((_, j) => j).filter((j) => areas[j] > 0).sort((a, b) => areas[b] - areas[a]);
+  const rank = new Int16Array(palette.length);
+  order.forEach((j, r) => (rank[j] = r));
+
+  const epsilon = 0.5 + (1 - detail) * 1.5;
+  const paths: string[] = [];
+  const mask = new Uint8Array(width * height);
+  order.forEach((j, r) => {
+    for (let i = 0; i < labels.length; i++) mask[i] = labels[i] >= 0 && rank[labels[i]] >= r ? 1 : 0;
+    const d = traceContours(mask, width, height)
+      .map((loop) => simplifyLoop(loop, epsilon))
+      .filter((loop) => loop.length >= 3 && polygonArea(loop) >= 1)
+      .map((loop) => loopPath(loop, smoothing * MAX_CURVE_TURN))
+      .join("");
+    if (d) paths.push(`<path fill="${hex(palette[j])}" fill-rule="evenodd" d="${d}"/>`);
+  });
+  return `${svgOpen}\n${paths.join("\n")}\n</svg>\n`;
+}
@@ -0,0 +1,77 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { createZip } from "@/lib/zip";
+
+// Storage paths are read when the modules load, so they are imported after the environment is set
+process.env.LC_STORE = "memory";
+process.env.LC_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "lc-workspace-test-"));
+let workspace: typeof import("@/lib/workspace");
+let store: typeof import("@/lib/store");
+before(async () => {
+  workspace = await import("@/lib/workspace");
+  store = await import("@/lib/store");
+});
+after(() => fs.rmSync(process.env.LC_DATA_DIR!, { recursive: true, force: true }));
+
+const png = () => sharp({ create: { width: 8, height: 8, channels: 4, background: "#ff0000" } }).png().toBuffer();
+
+function archive(files: Record<string, Buffer>, threads: Record<string, unknown>, assets: { url: string; path: string; mimeType: string }[]) {
+  const manifest = { format: "logo-chat-workspace", version: 1, exportedAt: "", project: { name: "Shared" }, canvas: null, threads, assets };
+  return createZip([
+    { name: "manifest.json", data: Buffer.from(JSON.stringify(manifest)) },
+    ...Object.entries(files).map(([name, data]) => ({ name, data })),
+  ]);
+}
+
+test("imported messages keep their content but not usage or cache flags", async () => {
+  const zip = archive(
+    { "assets/1.png": await png() },
+    {
+      default: {
+        messages: [
+          { id: "m1", role: "user", text: "logo", timestamp: 1 },
+          {
+            id: "m2",
+            role: "assistant",
+            imageUrl: "/api/assets/old",
+            usage: { modelId: "gpt-5", calls: 1, promptTokens: 1e9, latencyMs: 0 },
+            cached: true,
+            details: { finishReason: "STOP", extra: "x" },
+            injected: "<script>",
+            timestamp: 2,
+          },
+        ],
+        versions: [{ id: "v1", imageUrl: "/api/assets/old", timestamp: 2 }],
+        currentVersionId: "v1",
+      },
+    },
+    [{ url: "/api/assets/old", path: "assets/1.png", mimeType: "text/html" }]
+  );
+  const project = await workspace.importWorkspace("s1", zip);
+  const [user, reply] = store.getMessages("s1", project.id, "default");
+  assert.equal(user.text, "logo");
+  assert.match(reply.imageUrl ?? "", /^\/api\/assets\/[a-f0-9]{32}$/);
+  assert.equal(reply.usage, undefined);
+  assert.equal(reply.cached, undefined);
+  assert.equal(reply.details?.finishReason, "STOP");
+  assert.equal("injected" in reply, false);
+  assert.equal("extra" in (reply.details ?? {}), false);
+});
+
+test("archives with files the app doesn't generate are rejected without leaving a project", async () => {
+  const before = store.listProjects("s2").projects.length;
+  const zip = archive(
+    { "assets/1.png": await png(), "assets/2.svg": Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>') },
+    { default: { messages: [], versions: [] } },
+    [
+      { url: "/api/assets/a", path: "assets/1.png", mimeType: "image/png" },
+      { url: "/api/assets/b", path: "assets/2.svg", mimeType: "image/png" },
+    ]
+  );
+  await assert.rejects(workspace.importWorkspace("s2", zip), /not a PNG image or MP4 video/);
+  assert.equal(store.listProjects("s2").projects.length, before);
+});
@@ -0,0 +1,232 @@
+import {
+  addMessage,
+  addVersion,
+  createProject,
+  createThread,
+  deleteProject,
+  getProject,
+  getReferencedUrls,
+  saveCanvas,
+  selectVersion,
+  type CanvasState,
+  type ChatMessage,
+  type ImageVersion,
+  type ProjectState,
+} from "@/lib/store";
+import { assetUrl, deleteProjectAssets, loadAsset, saveAsset } from "@/lib/assets";
+import { parseCanvas } from "@/lib/canvas";
+import { createZip, readZip, type ZipEntry } from "@/lib/zip";
+
+// Workspace archive: a zip with manifest.json plus every referenced image/video under assets/.
+// Asset URLs inside the manifest are the exporting session's; import maps them to new assets.
+export const MANIFEST_FORMAT = "logo-chat-workspace";
+
+type ManifestThread = {
+  messages: ChatMessage[];
+  versions: ImageVersion[];
+  currentVersionId?: string;
+};
+
+export type WorkspaceManifest = {
+  format: typeof MANIFEST_FORMAT;
+  version: 1;
+  exportedAt: string;
+  project: { name: string };
+  canvas: CanvasState | null;
+  threads: Record<string, ManifestThread>;
+  assets: { url: string; path: string; mimeType: string }[];
+};
+
+const EXTENSIONS: Record<string, string> = { "image/png": "png", "video/mp4": "mp4" };
+
+export async function exportWorkspace(sessionId: string, projectId: string): Promise<{ name: string; archive: Buffer }> {
+  const project = getProject(sessionId, projectId);
+  const entries: ZipEntry[] = [];
+  const assets: WorkspaceManifest["assets"] = [];
+
+  for (const url of getReferencedUrls(sessionId, projectId)) {
+    try {
+      const { data, mimeType } = await loadAsset(sessionId, url);
+      const file = `assets/${assets.length + 1}.${EXTENSIONS[mimeType] || "bin"}`;
+      entries.push({ name: file, data });
+      assets.push({ url, path: file, mimeType });
+    } catch {
+      console.warn(`⚠️ Skipping missing asset ${url} in export of project ${projectId}`);
+    }
+  }
+
+  const threads: Record<string, ManifestThread> = {};
+  for (const [threadId, t] of project.threads) {
+    threads[threadId] = { messages: t.messages, versions: t.versions, currentVersionId: t.currentVersionId };
+  }
+
+  const manifest: WorkspaceManifest = {
+    format: MANIFEST_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    project: { name: project.name },
+    canvas: project.canvas ?? null,
+    threads,
+    assets,
+  };
+  entries.unshift({ name: "manifest.json", data: Buffer.from(JSON.stringify(manifest, null, 2)) });
+  return { name: project.name, archive: createZip(entries) };
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Archived files are served back from our origin, so their type comes from their bytes, never
+// from the manifest. Only what the app generates is accepted.
+function sniffMimeType(data: Buffer): "image/png" | "video/mp4" | null {
+  if (data.subarray(0, 8).equals(PNG_SIGNATURE)) return "image/png";
+  if (data.length >= 12 && data.toString("latin1", 4, 8) === "ftyp") return "video/mp4";
+  return null;
+}
+
+const str = (v: unknown, max: number) => (typeof v === "string" && v.length <= max ? v : undefined);
+const MAX_ID = 100;
+const MAX_URL = 500;
+const MAX_TEXT = 20_000;
+
+function readDetails(v: unknown): ChatMessage["details"] {
+  if (typeof v !== "object" || v === null) return undefined;
+  const d = v as Record<string, unknown>;
+  return {
+    finishReason: str(d.finishReason, MAX_ID),
+    blockReason: str(d.blockReason, MAX_ID),
+    safetyRatings: Array.isArray(d.safetyRatings)
+      ? d.safetyRatings.flatMap((r) =>
+          typeof r?.category === "string" && typeof r.probability === "string"
+            ? [{ category: r.category.slice(0, MAX_ID), probability: r.probability.slice(0, MAX_ID), blocked: r.blocked === true || undefined }]
+            : []
+        )
+      : undefined,
+  };
+}
+
+// A message rebuilt from the fields it is made of, each type-checked. Usage and the cache flag
+// describe upstream calls of the exporting session, so they are not carried over.
+function readMessage(v: unknown): ChatMessage | null {
+  if (typeof v !== "object" || v === null) return null;
+  const m = v as Record<string, unknown>;
+  const id = str(m.id, MAX_ID);
+  if (!id || (m.role !== "user" && m.role !== "assistant") || typeof m.timestamp !== "number" || !Number.isFinite(m.timestamp)) {
+    return null;
+  }
+  return {
+    id,
+    role: m.role,
+    text: str(m.text, MAX_TEXT),
+    originalPrompt: str(m.originalPrompt, MAX_TEXT),
+    imageUrl: str(m.imageUrl, MAX_URL),
+    videoUrl: str(m.videoUrl, MAX_URL),
+    versionId: str(m.versionId, MAX_ID),
+    candidates: Array.isArray(m.candidates)
+      ? m.candidates.flatMap((c) => {
+          const versionId = str(c?.versionId, MAX_ID);
+          const imageUrl = str(c?.imageUrl, MAX_URL);
+          return versionId && imageUrl ? [{ versionId, imageUrl }] : [];
+        })
+      : undefined,
+    details: readDetails(m.details),
+    timestamp: m.timestamp,
+  };
+}
+
+function readVersion(v: unknown): ImageVersion | null {
+  if (typeof v !== "object" || v === null) return null;
+  const m = v as Record<string, unknown>;
+  const id = str(m.id, MAX_ID);
+  const imageUrl = str(m.imageUrl, MAX_URL);
+  if (!id || !imageUrl || typeof m.timestamp !== "number" || !Number.isFinite(m.timestamp)) return null;
+  return { id, imageUrl, mimeType: "image/png", prompt: str(m.prompt, MAX_TEXT) ?? "", timestamp: m.timestamp };
+}
+
+type ImportedThread = { id: string; messages: ChatMessage[]; versions: ImageVersion[]; currentVersionId?: string };
+
+// Recreate an exported workspace as a new project in this session. The whole archive is checked
+// before anything is created; if saving fails midway the new project and its files are removed.
+export async function importWorkspace(sessionId: string, archive: Buffer, maxBytes?: number): Promise<ProjectState> {
+  const entries = readZip(archive, maxBytes);
+  const rawManifest = entries.get("manifest.json");
+  if (!rawManifest) throw new Error("Archive has no manifest.json");
+  let manifest: WorkspaceManifest;
+  try {
+    manifest = JSON.parse(rawManifest.toString("utf8"));
+  } catch {
+    throw new Error("manifest.json is not valid JSON");
+  }
+  if (manifest?.format !== MANIFEST_FORMAT || manifest.version !== 1) {
+    throw new Error("Not a logo-chat workspace archive");
+  }
+
+  const name = typeof manifest.project?.name === "string" && manifest.project.name.trim()
+    ? manifest.project.name.trim().slice(0, 100)
+    : "Imported project";
+
+  const files: { url: string; data: Buffer; mimeType: "image/png" | "video/mp4" }[] = [];
+  for (const a of Array.isArray(manifest.assets) ? manifest.assets : []) {
+    const data = typeof a?.path === "string" ? entries.get(a.path) : undefined;
+    if (!data || typeof a.url !== "string") continue;
+    const mimeType = sniffMimeType(data);
+    if (!mimeType) throw new Error(`${a.path} is not a PNG image or MP4 video`);
+    files.push({ url: a.url, data, mimeType });
+  }
+
+  const threads: ImportedThread[] = [];
+  for (const [id, t] of Object.entries(manifest.threads || {})) {
+    if (!str(id, MAX_ID)) throw new Error("Invalid thread id");
+    threads.push({
+      id,
+      messages: (Array.isArray(t?.messages) ? t.messages : []).flatMap((m) => readMessage(m) ?? []),
+      versions: (Array.isArray(t?.versions) ? t.versions : []).flatMap((v) => readVersion(v) ?? []),
+      currentVersionId: str(t?.currentVersionId, MAX_ID),
+    });
+  }
+  const canvas = manifest.canvas ? parseCanvas(manifest.canvas) : null;
+
+  const project = createProject(sessionId, name);
+  try {
+    // Old URL -> new asset URL, type and bytes
+    const imported = new Map<string, { url: string; data: Buffer; mimeType: string }>();
+    for (const f of files) {
+      const meta = await saveAsset(sessionId, project.id, f.data, f.mimeType);
+      imported.set(f.url, { url: assetUrl(meta.id), data: f.data, mimeType: f.mimeType });
+    }
+    const image = (url?: string) => (url && imported.get(url)?.mimeType === "image/png" ? imported.get(url) : undefined);
+
+    for (const t of threads) {
+      createThread(sessionId, project.id, t.id);
+      for (const m of t.messages) {
+        // Media that didn't make it into the archive is dropped rather than left dangling
+        addMessage(sessionId, project.id, t.id, {
+          ...m,
+          imageUrl: image(m.imageUrl)?.url,
+          videoUrl: m.videoUrl && imported.get(m.videoUrl)?.mimeType === "video/mp4" ? imported.get(m.videoUrl)?.url : undefined,
+          candidates: m.candidates?.flatMap((c) => {
+            const asset = image(c.imageUrl);
+            return asset ? [{ versionId: c.versionId, imageUrl: asset.url }] : [];
+          }),
+        });
+      }
+      const restored: { id: string; data: Buffer }[] = [];
+      for (const v of t.versions) {
+        const asset = image(v.imageUrl);
+        if (!asset) continue;
+        addVersion(sessionId, project.id, t.id, { ...v, imageUrl: asset.url }, asset.data);
+        restored.push({ id: v.id, data: asset.data });
+      }
+      const current = restored.find((v) => v.id === t.currentVersionId);
+      if (current) selectVersion(sessionId, project.id, t.id, current.id, current.data);
+    }
+
+    if (canvas) saveCanvas(sessionId, project.id, canvas);
+
+    console.log(`📦 Imported project ${project.id} (${imported.size} assets) - Session: ${sessionId}`);
+    return project;
+  } catch (e: unknown) {
+    deleteProject(sessionId, project.id);
+    await deleteProjectAssets(sessionId, project.id);
+    throw e;
+  }
+}